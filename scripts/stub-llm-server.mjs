@@ -0,0 +1,94 @@
+/**
+ * Stub LLM Server
+ * Minimal OpenAI-compatible /v1/chat/completions for testing streaming without network access
+ *
+ * Usage:
+ *   node scripts/stub-llm-server.mjs [port]        (default 8080)
+ *   SOVEREIGN_MODE=AIR_GAPPED, LOCAL_LLAMA_ENDPOINT=http://localhost:8080/v1/chat/completions
+ */
+
+import http from "node:http";
+
+const port = Number(process.argv[2] || process.env.PORT || 8080);
+const CHUNK_DELAY_MS = 40;
+
+function buildReply(messages) {
+    const lastUser = [...messages].reverse().find(m => m.role === "user");
+    const question = (lastUser?.content || "").slice(0, 80);
+    return `This is a stubbed reply from the local test server. You asked: "${question}". ` +
+        `Corrugated boxes suit heavier items, while folding cartons work well for retail display.`;
+}
+
+function sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function streamReply(res, model, reply) {
+    res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+    });
+
+    const id = `chatcmpl-stub-${Date.now()}`;
+    // Split on word boundaries but keep the whitespace so chunks concatenate back to the reply
+    for (const piece of reply.match(/\S+\s*/g) || []) {
+        const chunk = {
+            id,
+            object: "chat.completion.chunk",
+            model,
+            choices: [{ index: 0, delta: { content: piece }, finish_reason: null }],
+        };
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        await sleep(CHUNK_DELAY_MS);
+    }
+
+    res.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] })}\n\n`);
+    res.write("data: [DONE]\n\n");
+    res.end();
+}
+
+const server = http.createServer((req, res) => {
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Not found" }));
+        return;
+    }
+
+    let raw = "";
+    req.on("data", chunk => raw += chunk);
+    req.on("end", () => {
+        let body;
+        try {
+            body = JSON.parse(raw || "{}");
+        } catch {
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "Invalid JSON" }));
+            return;
+        }
+
+        const model = body.model || "stub-model";
+        const reply = buildReply(body.messages || []);
+        console.log(`[stub-llm] ${body.stream ? "stream" : "complete"} request (${(body.messages || []).length} messages)`);
+
+        if (body.stream) {
+            streamReply(res, model, reply).catch(error => {
+                console.error("[stub-llm] Error:", error);
+                res.end();
+            });
+            return;
+        }
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+            id: `chatcmpl-stub-${Date.now()}`,
+            object: "chat.completion",
+            model,
+            choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+        }));
+    });
+});
+
+server.listen(port, () => {
+    console.log(`[stub-llm] Listening on http://localhost:${port}/v1/chat/completions`);
+});
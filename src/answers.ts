@@ -0,0 +1,325 @@
+/**
+ * Typed Answers
+ * Parses a consultation answer once, by the step's answerType, into a structured value kept in memory.answers
+ * Parses that had to guess (no unit, a range where one number was expected...) ask the customer to confirm
+ */
+
+import { AnswerType, LengthUnit, Locale, Memory, TypedAnswer, WeightUnit } from "./types";
+import { CharterStep } from "./charter";
+import { DEFAULT_LOCALE, MessageKey, normalizeDigits, splitPicks, t } from "./i18n";
+
+export type AnswerParseResult =
+    | { ok: true; answer: TypedAnswer; assumption?: string } // assumption: what was guessed - confirm before storing
+    | { ok: false; message: string };
+
+// What the individual parsers return - catalog keys, translated by parseAnswerAs
+type ParseOutcome =
+    | { ok: true; answer: TypedAnswer; assumption?: MessageKey }
+    | { ok: false; message: MessageKey };
+
+const LENGTH_UNITS: Record<string, LengthUnit> = {
+    cm: "cm", centimeter: "cm", centimeters: "cm", centimetre: "cm", centimetres: "cm",
+    mm: "mm", millimeter: "mm", millimeters: "mm",
+    in: "in", inch: "in", inches: "in", '"': "in",
+    "سم": "cm", "مم": "mm", "بوصة": "in", "انش": "in", "إنش": "in",
+};
+const CM_PER_UNIT: Record<LengthUnit, number> = { cm: 1, mm: 0.1, in: 2.54 };
+
+const WEIGHT_UNITS: Record<string, WeightUnit> = {
+    g: "g", gr: "g", gm: "g", gram: "g", grams: "g",
+    kg: "kg", kgs: "kg", kilo: "kg", kilos: "kg", kilogram: "kg", kilograms: "kg",
+    oz: "oz", ounce: "oz", ounces: "oz",
+    lb: "lb", lbs: "lb", pound: "lb", pounds: "lb",
+    "جم": "g", "جرام": "g", "غ": "g", "غرام": "g", "كجم": "kg", "كغ": "kg", "كيلو": "kg", "كيلوجرام": "kg", "أونصة": "oz", "رطل": "lb",
+};
+const GRAMS_PER_UNIT: Record<WeightUnit, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+
+// Cities we deliver to most - used to pick the city out of a free-form address
+const KNOWN_CITIES = [
+    "Riyadh", "Jeddah", "Mecca", "Makkah", "Medina", "Madinah", "Dammam", "Khobar", "Al Khobar", "Dhahran",
+    "Jubail", "Al Ahsa", "Hofuf", "Taif", "Tabuk", "Abha", "Khamis Mushait", "Buraidah", "Hail", "Jazan",
+    "Najran", "Yanbu", "Al Kharj", "Dubai", "Abu Dhabi", "Sharjah", "Kuwait City", "Doha", "Manama", "Muscat",
+];
+const KNOWN_COUNTRIES = ["Saudi Arabia", "KSA", "UAE", "United Arab Emirates", "Kuwait", "Qatar", "Bahrain", "Oman"];
+// Arabic spellings, stored under the English name so addresses read the same in the order brief
+const ARABIC_PLACE_NAMES: Record<string, string> = {
+    "الرياض": "Riyadh", "جدة": "Jeddah", "مكة": "Makkah", "المدينة المنورة": "Madinah", "الدمام": "Dammam",
+    "الخبر": "Khobar", "الظهران": "Dhahran", "الجبيل": "Jubail", "الأحساء": "Al Ahsa", "الهفوف": "Hofuf",
+    "الطائف": "Taif", "تبوك": "Tabuk", "أبها": "Abha", "خميس مشيط": "Khamis Mushait", "بريدة": "Buraidah",
+    "حائل": "Hail", "جازان": "Jazan", "نجران": "Najran", "ينبع": "Yanbu", "الخرج": "Al Kharj",
+    "دبي": "Dubai", "أبوظبي": "Abu Dhabi", "أبو ظبي": "Abu Dhabi", "الشارقة": "Sharjah",
+    "السعودية": "Saudi Arabia", "الإمارات": "UAE", "الكويت": "Kuwait", "قطر": "Qatar", "البحرين": "Bahrain", "عمان": "Oman",
+};
+
+const CONFIRMATIONS = ["yes", "y", "yep", "yeah", "correct", "right", "confirm", "ok", "okay", "sure", "that's right", "نعم", "صحيح", "أكيد"];
+
+/**
+ * Parse an answer for a step. Steps without an answerType are kept as text
+ * Messages and assumptions come back in `locale`
+ */
+export function parseAnswer(step: CharterStep, raw: string, locale: Locale = DEFAULT_LOCALE): AnswerParseResult {
+    return parseAnswerAs(step.answerType || "text", raw, step, locale);
+}
+
+export function parseAnswerAs(type: AnswerType, raw: string, step?: CharterStep, locale: Locale = DEFAULT_LOCALE): AnswerParseResult {
+    const outcome = parseText(type, normalizeDigits(raw).trim(), step);
+    if (!outcome.ok) {
+        return { ok: false, message: t(locale, outcome.message) };
+    }
+    return outcome.assumption
+        ? { ok: true, answer: outcome.answer, assumption: t(locale, outcome.assumption) }
+        : { ok: true, answer: outcome.answer };
+}
+
+function parseText(type: AnswerType, text: string, step?: CharterStep): ParseOutcome {
+    switch (type) {
+        case "quantity":
+            return parseQuantity(text);
+        case "dimensions":
+            return parseDimensions(text);
+        case "weight":
+            return parseWeight(text);
+        case "money_range":
+            return parseMoneyRange(text);
+        case "enum":
+            return parseEnum(text, step);
+        case "address":
+            return parseAddress(text);
+        default:
+            return { ok: true, answer: { type: "text", value: text } };
+    }
+}
+
+/**
+ * Typed answer for a step - parsed from the clipboard for projects saved before answers were typed
+ * The clipboard stays the source of truth for whether a step is answered (flows clear it wholesale)
+ */
+export function getTypedAnswer<T extends AnswerType>(memory: Memory, stepId: string, type: T): Extract<TypedAnswer, { type: T }> | undefined {
+    const raw = memory.clipboard[stepId];
+    if (!raw) return undefined;
+    const stored = memory.answers?.[stepId];
+    if (stored) {
+        return stored.type === type ? stored as Extract<TypedAnswer, { type: T }> : undefined;
+    }
+    const parsed = parseAnswerAs(type, raw);
+    return parsed.ok ? parsed.answer as Extract<TypedAnswer, { type: T }> : undefined;
+}
+
+/**
+ * Short human-readable form of a typed answer (used when asking to confirm)
+ */
+export function formatAnswer(answer: TypedAnswer, locale: Locale = DEFAULT_LOCALE): string {
+    switch (answer.type) {
+        case "text":
+            return answer.value;
+        case "quantity":
+            return `${answer.value.toLocaleString("en-US")} ${t(locale, "units")}`;
+        case "dimensions":
+            return `${formatNumber(answer.length)} x ${formatNumber(answer.width)} x ${formatNumber(answer.height)} ${answer.unit}`;
+        case "weight":
+            return `${formatNumber(answer.value)} ${answer.unit}`;
+        case "money_range": {
+            if (answer.flexible) return t(locale, "flexibleBudget");
+            const per = answer.per === "total" ? " total" : answer.per === "unit" ? "/unit" : "";
+            if (answer.min !== undefined && answer.max !== undefined) {
+                return answer.min === answer.max
+                    ? `${formatNumber(answer.min)} ${answer.currency}${per}`
+                    : `${formatNumber(answer.min)}-${formatNumber(answer.max)} ${answer.currency}${per}`;
+            }
+            if (answer.max !== undefined) return `Under ${formatNumber(answer.max)} ${answer.currency}${per}`;
+            return `${formatNumber(answer.min ?? 0)}+ ${answer.currency}${per}`;
+        }
+        case "enum":
+            return answer.values.join(", ");
+        case "address":
+            return [...answer.lines, answer.city && !answer.lines.includes(answer.city) ? answer.city : ""].filter(Boolean).join(", ");
+    }
+}
+
+/**
+ * Whether a reply accepts the "did I get that right?" question
+ */
+export function isConfirmation(message: string): boolean {
+    const normalized = message.toLowerCase().trim().replace(/[.!]+$/, "");
+    return CONFIRMATIONS.includes(normalized);
+}
+
+function parseQuantity(text: string): ParseOutcome {
+    const numbers = extractNumbers(text);
+    if (numbers.length === 0) {
+        return { ok: false, message: "invalidQuantity" };
+    }
+
+    const value = Math.floor(numbers[0]);
+    if (value < 1) {
+        return { ok: false, message: "invalidQuantity" };
+    }
+    if (numbers.length > 1) {
+        // "500-1000", "500 or 1000" - quote the first and let the customer correct it
+        return { ok: true, answer: { type: "quantity", value }, assumption: "assumedFirstNumber" };
+    }
+    if (value !== numbers[0]) {
+        return { ok: true, answer: { type: "quantity", value }, assumption: "assumedWholeUnits" };
+    }
+    return { ok: true, answer: { type: "quantity", value } };
+}
+
+/**
+ * Dimensions like "20x15x10 cm", "8 x 6 x 4 inches", "20*15*10" or "20 في 15 في 10 سم"
+ * Returns the values as given plus a cm copy sorted largest first (for fit checks)
+ */
+function parseDimensions(text: string): ParseOutcome {
+    const unit = `(?:cm|mm|in(?:ch(?:es)?)?|"|سم|مم)?`;
+    const by = `(?:[x×*]|في)`;
+    const match = text.match(new RegExp(`(\\d+(?:[.,]\\d+)?)\\s*${unit}\\s*${by}\\s*(\\d+(?:[.,]\\d+)?)\\s*${unit}\\s*${by}\\s*(\\d+(?:[.,]\\d+)?)`, "i"));
+    if (!match) {
+        return { ok: false, message: "invalidDimensions" };
+    }
+
+    const [length, width, height] = match.slice(1, 4).map(value => parseFloat(value.replace(",", ".")));
+    const unitWord = findUnit(text, LENGTH_UNITS);
+    const lengthUnit = unitWord || "cm";
+    const factor = CM_PER_UNIT[lengthUnit];
+    const [cmLength, cmWidth, cmHeight] = [length, width, height].map(value => round(value * factor)).sort((a, b) => b - a);
+
+    const answer: TypedAnswer = {
+        type: "dimensions",
+        length, width, height, unit: lengthUnit,
+        cm: { length: cmLength, width: cmWidth, height: cmHeight },
+    };
+    return unitWord ? { ok: true, answer } : { ok: true, answer, assumption: "assumedCentimeters" };
+}
+
+function parseWeight(text: string): ParseOutcome {
+    const numbers = extractNumbers(text);
+    if (numbers.length === 0) {
+        return { ok: false, message: "invalidWeight" };
+    }
+
+    const unitWord = findUnit(text, WEIGHT_UNITS);
+    // Bare numbers are grams unless they are tiny - "2" is far more likely kilograms
+    const unit = unitWord || (numbers[0] < 10 ? "kg" : "g");
+    const answer: TypedAnswer = { type: "weight", value: numbers[0], unit, grams: round(numbers[0] * GRAMS_PER_UNIT[unit]) };
+
+    if (!unitWord) {
+        return { ok: true, answer, assumption: unit === "kg" ? "assumedKilograms" : "assumedGrams" };
+    }
+    if (numbers.length > 1) {
+        return { ok: true, answer, assumption: "assumedFirstWeight" };
+    }
+    return { ok: true, answer };
+}
+
+/**
+ * Budgets like the charter options ("Under 1 SAR/unit", "1-5 SAR/unit", "20+ SAR/unit") or free text ("around 3 riyals each")
+ */
+function parseMoneyRange(text: string): ParseOutcome {
+    const lower = text.toLowerCase();
+    if (/flexible|will discuss|not sure|no budget|مرن|سأناقش|غير متأكد/.test(lower)) {
+        return { ok: true, answer: { type: "money_range", currency: "SAR", flexible: true } };
+    }
+
+    const numbers = extractNumbers(text);
+    if (numbers.length === 0) {
+        return { ok: false, message: "invalidBudget" };
+    }
+
+    const currency = /\$|usd|dollar/.test(lower) ? "USD" : "SAR";
+    const per = /\/\s*unit|per\s+(unit|piece|box|item)|each|a piece|\/\s*pc|وحدة|للقطعة|القطعة/.test(lower) ? "unit"
+        : /total|overall|in all|altogether|إجمالي|الإجمالي|المجموع/.test(lower) ? "total"
+        : undefined;
+
+    let min: number | undefined;
+    let max: number | undefined;
+    if (/under|below|less than|up to|max(imum)?|<|أقل/.test(lower)) {
+        max = numbers[0];
+    } else if (/\+|over|above|more than|at least|min(imum)?|>|أكثر|فوق/.test(lower) && numbers.length === 1) {
+        min = numbers[0];
+    } else if (numbers.length >= 2) {
+        [min, max] = [Math.min(numbers[0], numbers[1]), Math.max(numbers[0], numbers[1])];
+    } else {
+        min = max = numbers[0];
+    }
+
+    const answer: TypedAnswer = { type: "money_range", min, max, currency, per };
+    if (!per) {
+        // Without "per unit" / "total" the number could mean either - big numbers are usually the whole order
+        answer.per = numbers[0] >= 100 ? "total" : "unit";
+        return { ok: true, answer, assumption: answer.per === "unit" ? "assumedPerUnitBudget" : "assumedTotalBudget" };
+    }
+    return { ok: true, answer };
+}
+
+/**
+ * Option answers (multi-select answers arrive comma-separated); picks outside the options are kept in custom
+ * Expects canonical (English) option text - see canonicalizeAnswer
+ */
+function parseEnum(text: string, step?: CharterStep): ParseOutcome {
+    const options = ((step?.options || []) as Array<string | string[]>).flat();
+    const picks = (step?.multiple ? splitPicks(step, text) : [text]).map(part => part.trim()).filter(Boolean);
+    if (picks.length === 0) {
+        return { ok: false, message: "invalidOption" };
+    }
+
+    const values: string[] = [];
+    const custom: string[] = [];
+    for (const pick of picks) {
+        const option = options.find(o => o.toLowerCase() === pick.toLowerCase());
+        if (option) {
+            values.push(option);
+        } else {
+            values.push(pick);
+            custom.push(pick);
+        }
+    }
+    return { ok: true, answer: { type: "enum", values, custom } };
+}
+
+function parseAddress(text: string): ParseOutcome {
+    const lines = text.split(/[\n,،]+/).map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) {
+        return { ok: false, message: "invalidAddress" };
+    }
+
+    const lower = text.toLowerCase();
+    const places = Object.keys(ARABIC_PLACE_NAMES).filter(name => text.includes(name)).map(name => ARABIC_PLACE_NAMES[name]);
+    const mentions = (name: string) => places.includes(name) || new RegExp(`\\b${name.toLowerCase()}\\b`).test(lower);
+    const city = KNOWN_CITIES.find(mentions);
+    const country = KNOWN_COUNTRIES.find(mentions);
+    const answer: TypedAnswer = { type: "address", lines, city, country };
+
+    if (!city) {
+        // Still usable (sales follow up), but worth a second look before it goes on the order
+        return { ok: true, answer, assumption: "unknownCity" };
+    }
+    return { ok: true, answer };
+}
+
+/**
+ * Numbers in text, accepting thousands separators ("1,000") and k suffixes ("2k")
+ */
+function extractNumbers(text: string): number[] {
+    const matches = text.replace(/(\d),(?=\d{3}\b)/g, "$1").match(/\d+(?:\.\d+)?(?:\s*k(?![a-z]))?/gi) || [];
+    return matches.map(match => {
+        const value = parseFloat(match);
+        return /k$/i.test(match.trim()) ? value * 1000 : value;
+    });
+}
+
+/**
+ * Unit written right after a number ("20cm", "1.5 kg") - other words like "in" are ignored
+ */
+function findUnit<T extends string>(text: string, units: Record<string, T>): T | undefined {
+    for (const match of text.toLowerCase().matchAll(/\d\s*([a-z]+|[\u0600-\u06FF]+|")/g)) {
+        if (units[match[1]]) return units[match[1]];
+    }
+    return undefined;
+}
+
+function formatNumber(value: number): string {
+    return Number.isInteger(value) ? value.toLocaleString("en-US") : String(round(value));
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,204 @@
+/**
+ * Session Identity
+ * Issues and verifies signed session tokens used to address PackagehaSession Durable Objects
+ */
+
+import { Env } from "./types";
+
+export const SESSION_COOKIE_NAME = "packageha_session";
+export const SESSION_HEADER_NAME = "X-Session-Token";
+
+const DEFAULT_TOKEN_TTL_DAYS = 30;
+
+export interface SessionTokenPayload {
+    sid: string; // Stable session id (used with idFromName)
+    iat: number; // Issued at (ms)
+    exp: number; // Expires at (ms)
+}
+
+export interface SessionIdentity {
+    sessionId: string;
+    source: "token" | "anonymous_ip";
+    // Name passed to PackagehaSession.idFromName()
+    objectName: string;
+}
+
+export interface IssuedSession {
+    token: string;
+    sessionId: string;
+    expiresAt: number;
+}
+
+/**
+ * Issue a new session token (or refresh an existing session id)
+ */
+export async function issueSessionToken(env: Env, existingSessionId?: string): Promise<IssuedSession> {
+    const secret = requireSessionSecret(env);
+    const now = Date.now();
+    const payload: SessionTokenPayload = {
+        sid: existingSessionId || crypto.randomUUID(),
+        iat: now,
+        exp: now + getTokenTtlMs(env),
+    };
+
+    const encodedPayload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+    const signature = await sign(secret, encodedPayload);
+
+    return {
+        token: `${encodedPayload}.${signature}`,
+        sessionId: payload.sid,
+        expiresAt: payload.exp,
+    };
+}
+
+/**
+ * Verify a session token and return its payload, or null if invalid/expired
+ */
+export async function verifySessionToken(env: Env, token: string): Promise<SessionTokenPayload | null> {
+    if (!env.SESSION_SECRET || !token) return null;
+
+    const [encodedPayload, signature] = token.split(".");
+    if (!encodedPayload || !signature) return null;
+
+    const valid = await verify(env.SESSION_SECRET, encodedPayload, signature);
+    if (!valid) return null;
+
+    try {
+        const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as SessionTokenPayload;
+        if (!payload.sid || !payload.exp || payload.exp < Date.now()) {
+            return null;
+        }
+        return payload;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the session token from the X-Session-Token header or the session cookie
+ * WebSocket clients cannot set headers, so they may pass ?token= instead (allowQueryParam)
+ */
+export function getSessionTokenFromRequest(request: Request, allowQueryParam: boolean = false): string | null {
+    const headerToken = request.headers.get(SESSION_HEADER_NAME);
+    if (headerToken) return headerToken.trim();
+
+    if (allowQueryParam) {
+        const queryToken = new URL(request.url).searchParams.get("token");
+        if (queryToken) return queryToken;
+    }
+
+    const cookieHeader = request.headers.get("Cookie");
+    if (!cookieHeader) return null;
+
+    for (const part of cookieHeader.split(";")) {
+        const [name, ...rest] = part.trim().split("=");
+        if (name === SESSION_COOKIE_NAME) {
+            return rest.join("=");
+        }
+    }
+    return null;
+}
+
+/**
+ * Resolve the caller's session identity
+ * Returns null when no valid token is presented and anonymous IP sessions are disabled
+ */
+export async function resolveSessionIdentity(request: Request, env: Env, allowQueryToken: boolean = false): Promise<SessionIdentity | null> {
+    const token = getSessionTokenFromRequest(request, allowQueryToken);
+    if (token) {
+        const payload = await verifySessionToken(env, token);
+        if (payload) {
+            return {
+                sessionId: payload.sid,
+                source: "token",
+                objectName: `session:${payload.sid}`,
+            };
+        }
+    }
+
+    // Anonymous IP-keyed sessions are opt-in only (shared NATs share a conversation)
+    if (env.ALLOW_ANONYMOUS_SESSIONS === "true") {
+        const ip = getClientIp(request);
+        return {
+            sessionId: ip,
+            source: "anonymous_ip",
+            objectName: ip,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Build the Set-Cookie header value for a session token
+ */
+export function buildSessionCookie(token: string, expiresAt: number): string {
+    const maxAge = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+    return `${SESSION_COOKIE_NAME}=${token}; Path=/; Max-Age=${maxAge}; HttpOnly; Secure; SameSite=Lax`;
+}
+
+export function getClientIp(request: Request): string {
+    const cfIp = request.headers.get("CF-Connecting-IP");
+    const forwardedFor = request.headers.get("X-Forwarded-For");
+    if (cfIp) {
+        return cfIp.trim();
+    } else if (forwardedFor) {
+        return forwardedFor.split(",")[0].trim();
+    }
+    return "anonymous";
+}
+
+// ==================== HELPERS ====================
+
+function requireSessionSecret(env: Env): string {
+    if (!env.SESSION_SECRET) {
+        throw new Error("SESSION_SECRET is required to issue session tokens");
+    }
+    return env.SESSION_SECRET;
+}
+
+function getTokenTtlMs(env: Env): number {
+    const days = parseFloat(env.SESSION_TOKEN_TTL_DAYS || "");
+    return (days > 0 ? days : DEFAULT_TOKEN_TTL_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"]
+    );
+}
+
+async function sign(secret: string, data: string): Promise<string> {
+    const key = await importKey(secret);
+    const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
+    return base64UrlEncode(new Uint8Array(signature));
+}
+
+async function verify(secret: string, data: string, signature: string): Promise<boolean> {
+    try {
+        const key = await importKey(secret);
+        return await crypto.subtle.verify("HMAC", key, base64UrlDecode(signature), new TextEncoder().encode(data));
+    } catch {
+        return false;
+    }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach(b => binary += String.fromCharCode(b));
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -0,0 +1,117 @@
+/**
+ * Budget
+ * The customer's budget as a per-unit SAR range, per-unit package costs, and budget and price scores for ranking
+ */
+
+import { Memory } from "./types";
+import { ShopifyProduct } from "./shopify";
+import { getTypedAnswer } from "./answers";
+
+const SAR_PER_USD = 3.75; // Pegged rate
+
+// Variants sold as packs ("Pack of 50", "100 pcs", "50 قطعة") - their price covers that many units
+const PACK_SIZE_PATTERNS = [/pack of\s*(\d+)/i, /(\d+)\s*-?\s*(?:pcs|pieces|units|pack)\b/i, /(\d+)\s*(?:قطعة|حبة)/];
+
+/**
+ * SAR per unit - either bound may be open ("Under 1 SAR/unit", "20+ SAR/unit")
+ */
+export interface UnitBudget {
+    min: number | null;
+    max: number | null;
+}
+
+export interface PriceCheck {
+    variantId: number | null; // Variant the cost is for
+    unitCost: number | null; // SAR per unit, null when the variant has no price
+    status: "within" | "over" | "under" | null; // null = no budget (or no price) to compare with
+}
+
+/**
+ * The budget answer per unit in SAR - null when there is none, it is flexible,
+ * or it is a total and the quantity isn't known yet to split it
+ */
+export function getUnitBudget(memory: Memory): UnitBudget | null {
+    const budget = getTypedAnswer(memory, "budget", "money_range");
+    if (!budget || budget.flexible || (budget.min === undefined && budget.max === undefined)) {
+        return null;
+    }
+
+    let divisor = 1;
+    if (budget.per === "total") {
+        const quantity = getTypedAnswer(memory, "quantity", "quantity")?.value;
+        if (!quantity) {
+            console.log("[getUnitBudget] Total budget without a quantity yet - not filtering by price");
+            return null;
+        }
+        divisor = quantity;
+    }
+    const rate = budget.currency === "USD" ? SAR_PER_USD : 1;
+    const toUnit = (value: number | undefined) => value === undefined ? null : Math.round(value * rate / divisor * 100) / 100;
+    return { min: toUnit(budget.min), max: toUnit(budget.max) };
+}
+
+/**
+ * Per-unit cost of a package - for the given variant (e.g. the smallest that fits), otherwise its cheapest
+ */
+export function checkPrice(product: ShopifyProduct, variantId: number | null, budget: UnitBudget | null): PriceCheck {
+    const priced = (product.variants || [])
+        .map(variant => ({ id: variant.id, unitCost: unitCost(variant) }))
+        .filter((variant): variant is { id: number; unitCost: number } => variant.unitCost !== null);
+    const variant = priced.find(v => v.id === variantId) || priced.sort((a, b) => a.unitCost - b.unitCost)[0];
+    if (!variant) {
+        return { variantId, unitCost: null, status: null };
+    }
+
+    let status: PriceCheck["status"] = null;
+    if (budget) {
+        status = budget.max !== null && variant.unitCost > budget.max ? "over"
+            : budget.min !== null && variant.unitCost < budget.min ? "under"
+            : "within";
+    }
+    return { variantId: variant.id, unitCost: variant.unitCost, status };
+}
+
+/**
+ * Variant price per unit, splitting pack prices over the units in the pack
+ */
+export function unitCost(variant: ShopifyProduct["variants"][number]): number | null {
+    const price = parseFloat(variant.price);
+    if (isNaN(price)) {
+        return null;
+    }
+    const labels = [variant.title, variant.option1, variant.option2, variant.option3].filter(Boolean).join(" ");
+    const packSize = PACK_SIZE_PATTERNS.map(pattern => labels.match(pattern)).find(Boolean);
+    const units = packSize ? parseInt(packSize[1]) : 1;
+    return Math.round(price / Math.max(units, 1) * 100) / 100;
+}
+
+/**
+ * How well a per-unit cost suits the budget, from 0 to 1: anything within it scores 1, over it scores 0,
+ * and below a minimum ("20+ SAR/unit") scores less the further below it is, as it isn't what they asked for
+ * null when there is no budget or no price to compare
+ */
+export function budgetFitScore(cost: number | null, budget: UnitBudget | null): number | null {
+    if (!budget || cost === null) return null;
+    if (budget.max !== null && cost > budget.max) return 0;
+    if (budget.min !== null && budget.min > 0 && cost < budget.min) {
+        return Math.round((0.5 + 0.5 * (cost / budget.min)) * 100) / 100;
+    }
+    return 1;
+}
+
+/**
+ * Price score from 0 to 1 - cheaper scores higher, relative to the top of the budget or, without one,
+ * the priciest package shown. null when the package has no price
+ */
+export function priceScore(cost: number | null, budget: UnitBudget | null, maxUnitCost: number): number | null {
+    const scale = budget?.max ?? maxUnitCost;
+    if (cost === null || scale <= 0) return null;
+    return Math.round(Math.max(0, 1 - cost / scale) * 100) / 100;
+}
+
+export function formatUnitBudget(budget: UnitBudget): string {
+    if (budget.min !== null && budget.max !== null) {
+        return budget.min === budget.max ? `${budget.max} SAR/unit` : `${budget.min}-${budget.max} SAR/unit`;
+    }
+    return budget.max !== null ? `≤ ${budget.max} SAR/unit` : `${budget.min}+ SAR/unit`;
+}
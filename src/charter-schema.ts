@@ -0,0 +1,249 @@
+/**
+ * Charter Schema
+ * JSON (serializable) charter format with declarative validators, compiled into the runtime Charter
+ */
+
+import { Charter, CharterPhase, CharterStep, StepCondition, StepDependent } from "./charter";
+import { AnswerType, Locale } from "./types";
+import { DEFAULT_LOCALE } from "./i18n";
+
+export type ValidatorSpec = (
+    | { type: "regex"; pattern: string; flags?: string; message: string }
+    | { type: "range"; min?: number; max?: number; integer?: boolean; message: string } // Checks the first number in the answer
+    | { type: "units"; units: string[]; message: string } // Answer must mention one of the units (e.g. "cm", "kg")
+    | { type: "option"; options?: string[]; message: string } // Answer must be one of the options (defaults to the step's own)
+) & { translations?: Partial<Record<Locale, string>> }; // message in other languages
+
+export interface CharterStepDocument extends Omit<CharterStep, "validation" | "parentId"> {
+    validators?: ValidatorSpec[];
+    // Asked right after this step once it is answered (each may add its own showIf on the answer)
+    followUps?: CharterStepDocument[];
+}
+
+export interface ConsultationPhaseDocument {
+    mission: string;
+    steps: CharterStepDocument[];
+}
+
+// Everything in a CharterDocument is plain JSON - it can be stored in KV and edited by sales ops
+export interface CharterDocument {
+    meta: Charter["meta"];
+    discovery: CharterPhase;
+    variant: CharterPhase;
+    consultation: ConsultationPhaseDocument;
+    productDetails?: ConsultationPhaseDocument;
+    packageSpecs?: ConsultationPhaseDocument;
+    fulfillmentSpecs?: ConsultationPhaseDocument;
+    launchKit?: ConsultationPhaseDocument;
+}
+
+const CONSULTATION_PHASES = ["consultation", "productDetails", "packageSpecs", "fulfillmentSpecs", "launchKit"] as const;
+const ANSWER_TYPES: AnswerType[] = ["text", "quantity", "dimensions", "weight", "money_range", "enum", "address"];
+const STEP_DEPENDENTS: StepDependent[] = ["package_fit", "package_choice", "quote"];
+
+/**
+ * Compile a charter document into the runtime Charter (validators become functions)
+ * Questions and validator messages are taken in `locale` where translated; option values stay canonical
+ * Throws with every problem found when the document is invalid
+ */
+export function compileCharter(doc: CharterDocument, locale: Locale = DEFAULT_LOCALE): Charter {
+    const errors = validateCharterDocument(doc);
+    if (errors.length > 0) {
+        throw new Error(`Invalid charter: ${errors.join("; ")}`);
+    }
+
+    const charter: Charter = {
+        meta: { ...doc.meta },
+        discovery: doc.discovery,
+        variant: doc.variant,
+        consultation: compilePhase(doc.consultation, locale),
+    };
+    for (const phase of CONSULTATION_PHASES) {
+        const phaseDoc = doc[phase];
+        if (phase !== "consultation" && phaseDoc) {
+            charter[phase] = compilePhase(phaseDoc, locale);
+        }
+    }
+    return charter;
+}
+
+/**
+ * Structural checks for a charter document - returns a list of problems (empty when valid)
+ */
+export function validateCharterDocument(doc: any): string[] {
+    const errors: string[] = [];
+    if (!doc || typeof doc !== "object") {
+        return ["charter must be an object"];
+    }
+    if (!doc.meta?.name || !doc.meta?.version) {
+        errors.push("meta.name and meta.version are required");
+    }
+    for (const phase of ["discovery", "variant"]) {
+        if (typeof doc[phase]?.mission !== "string" || !Array.isArray(doc[phase]?.rules)) {
+            errors.push(`${phase} needs a mission and a rules array`);
+        }
+    }
+
+    const seenIds = new Set<string>();
+    for (const phase of CONSULTATION_PHASES) {
+        const phaseDoc = doc[phase];
+        if (!phaseDoc) {
+            if (phase === "consultation") errors.push("consultation is required");
+            continue;
+        }
+        if (!Array.isArray(phaseDoc.steps)) {
+            errors.push(`${phase}.steps must be an array`);
+            continue;
+        }
+        if (phaseDoc.steps[0]?.showIf) {
+            errors.push(`${phase}.steps[0]: the first step of a phase cannot have showIf`);
+        }
+        const checkStep = (step: any, where: string) => {
+            if (!step?.id || typeof step.question !== "string") {
+                errors.push(`${where} needs an id and a question`);
+                return;
+            }
+            if (seenIds.has(step.id)) {
+                errors.push(`${where}: duplicate step id "${step.id}"`);
+            }
+            seenIds.add(step.id);
+            if (step.answerType !== undefined && !ANSWER_TYPES.includes(step.answerType)) {
+                errors.push(`${where}: unknown answerType "${step.answerType}"`);
+            }
+            for (const dependent of step.affects || []) {
+                if (!STEP_DEPENDENTS.includes(dependent)) errors.push(`${where}: unknown affects "${dependent}"`);
+            }
+            for (const validator of step.validators || []) {
+                const problem = checkValidatorSpec(validator);
+                if (problem) errors.push(`${where}: ${problem}`);
+            }
+            if (step.showIf) {
+                const problem = checkCondition(step.showIf, seenIds);
+                if (problem) errors.push(`${where}.showIf: ${problem}`);
+            }
+            (step.followUps || []).forEach((followUp: any, i: number) => checkStep(followUp, `${where}.followUps[${i}]`));
+        };
+        phaseDoc.steps.forEach((step: any, index: number) => checkStep(step, `${phase}.steps[${index}]`));
+    }
+    return errors;
+}
+
+function compilePhase(phase: ConsultationPhaseDocument, locale: Locale): { mission: string; steps: CharterStep[] } {
+    return {
+        mission: phase.mission,
+        steps: phase.steps.flatMap(step => flattenStep(step, locale)),
+    };
+}
+
+/**
+ * Follow-ups are inlined right after their parent, so steps stay a flat, ordered list
+ * A follow-up is only shown once its parent is answered (plus its own showIf)
+ */
+function flattenStep(stepDoc: CharterStepDocument, locale: Locale, parentId?: string): CharterStep[] {
+    const { followUps, ...own } = stepDoc;
+    const step = compileStep(own, locale);
+    if (parentId) {
+        const parentAnswered: StepCondition = { stepId: parentId, answered: true };
+        step.parentId = parentId;
+        step.showIf = step.showIf ? { all: [parentAnswered, step.showIf] } : parentAnswered;
+    }
+    return [step, ...(followUps || []).flatMap(followUp => flattenStep(followUp, locale, stepDoc.id))];
+}
+
+function compileStep(stepDoc: Omit<CharterStepDocument, "followUps">, locale: Locale): CharterStep {
+    const { validators, ...own } = stepDoc;
+    const step: CharterStep = { ...own, question: own.translations?.[locale]?.question || own.question };
+    if (!validators || validators.length === 0) {
+        return step;
+    }
+
+    const checks = validators.map(spec => compileValidator(spec, step, spec.translations?.[locale] || spec.message));
+    return {
+        ...step,
+        // First failing validator's message wins
+        validation: (answer: string) => {
+            for (const check of checks) {
+                const result = check(answer);
+                if (result !== true) return result;
+            }
+            return true;
+        },
+    };
+}
+
+function compileValidator(spec: ValidatorSpec, step: Omit<CharterStep, "validation">, message: string): (answer: string) => true | string {
+    switch (spec.type) {
+        case "regex": {
+            const pattern = new RegExp(spec.pattern, spec.flags);
+            return answer => pattern.test(answer) || message;
+        }
+
+        case "range":
+            return answer => {
+                const match = answer.replace(/,/g, "").match(/-?\d+(?:\.\d+)?/);
+                if (!match) return message;
+                const value = spec.integer ? Math.floor(parseFloat(match[0])) : parseFloat(match[0]);
+                if (spec.min !== undefined && value < spec.min) return message;
+                if (spec.max !== undefined && value > spec.max) return message;
+                return true;
+            };
+
+        case "units": {
+            const units = spec.units.map(unit => unit.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+            // Unit directly after a number ("20cm") or as its own word ("20 cm")
+            const pattern = new RegExp(`(?:\\d|\\b)(?:${units.join("|")})\\b`, "i");
+            return answer => pattern.test(answer) || message;
+        }
+
+        case "option": {
+            const options = (spec.options || (step.options || []).flat()).map(option => option.toLowerCase().trim());
+            return answer => {
+                // Multi-select answers arrive comma-separated
+                const parts = step.multiple ? answer.split(",") : [answer];
+                const chosen = parts.map(part => part.toLowerCase().trim()).filter(Boolean);
+                return (chosen.length > 0 && chosen.every(part => options.includes(part))) || message;
+            };
+        }
+    }
+}
+
+/**
+ * Conditions may only refer to steps asked earlier (ids already seen)
+ */
+function checkCondition(condition: any, earlierIds: Set<string>): string | null {
+    if (!condition || typeof condition !== "object") return "condition must be an object";
+    if (Array.isArray(condition.all) || Array.isArray(condition.any)) {
+        for (const child of condition.all || condition.any) {
+            const problem = checkCondition(child, earlierIds);
+            if (problem) return problem;
+        }
+        return null;
+    }
+    if (condition.not) return checkCondition(condition.not, earlierIds);
+    if (typeof condition.stepId !== "string") return "conditions need a stepId (or all/any/not)";
+    if (!earlierIds.has(condition.stepId)) return `"${condition.stepId}" is not an earlier step`;
+    return null;
+}
+
+function checkValidatorSpec(spec: any): string | null {
+    if (!spec || typeof spec.message !== "string") {
+        return "validators need a message";
+    }
+    switch (spec.type) {
+        case "regex":
+            try {
+                new RegExp(spec.pattern, spec.flags);
+                return null;
+            } catch {
+                return `invalid regex "${spec.pattern}"`;
+            }
+        case "range":
+            return spec.min === undefined && spec.max === undefined ? "range validators need min and/or max" : null;
+        case "units":
+            return Array.isArray(spec.units) && spec.units.length > 0 ? null : "units validators need a units array";
+        case "option":
+            return spec.options === undefined || Array.isArray(spec.options) ? null : "option validators' options must be an array";
+        default:
+            return `unknown validator type "${spec.type}"`;
+    }
+}
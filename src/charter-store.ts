@@ -0,0 +1,114 @@
+/**
+ * Charter Store
+ * Loads published charter versions from the CHARTERS KV namespace, falling back to the built-in SALES_CHARTER
+ *
+ * KV layout:
+ *   sales:current        -> version string sales ops have published (e.g. "3.1")
+ *   sales:v:<version>    -> CharterDocument JSON
+ * CHARTER_VERSION (env) overrides sales:current, e.g. to pin a deployment to a known version.
+ */
+
+import { Env, Locale } from "./types";
+import { Charter, SALES_CHARTER, SALES_CHARTER_DOCUMENT } from "./charter";
+import { CharterDocument, compileCharter } from "./charter-schema";
+import { DEFAULT_LOCALE } from "./i18n";
+
+const CURRENT_KEY = "sales:current";
+const CACHE_TTL_MS = 60 * 1000;
+
+// Per-isolate cache (by version and locale) - published versions are immutable, only the "current" pointer changes
+const compiledVersions = new Map<string, Charter>();
+let currentVersionCache: { version: string; fetchedAt: number } | null = null;
+
+/**
+ * Version new projects should start on
+ */
+export async function getCurrentCharterVersion(env: Env): Promise<string> {
+    if (env.CHARTER_VERSION) {
+        return env.CHARTER_VERSION;
+    }
+    if (!env.CHARTERS) {
+        return SALES_CHARTER.meta.version;
+    }
+
+    const now = Date.now();
+    if (currentVersionCache && now - currentVersionCache.fetchedAt < CACHE_TTL_MS) {
+        return currentVersionCache.version;
+    }
+
+    try {
+        const version = (await env.CHARTERS.get(CURRENT_KEY)) || SALES_CHARTER.meta.version;
+        currentVersionCache = { version, fetchedAt: now };
+        return version;
+    } catch (error: any) {
+        console.error("[getCurrentCharterVersion] Error:", error);
+        return SALES_CHARTER.meta.version;
+    }
+}
+
+/**
+ * Load a specific charter version (or the current one), with questions in `locale`
+ * Missing or invalid versions fall back to the built-in charter so a bad publish never breaks chat
+ */
+export async function loadCharter(env: Env, version?: string, locale: Locale = DEFAULT_LOCALE): Promise<Charter> {
+    const wanted = version || await getCurrentCharterVersion(env);
+    if (wanted === SALES_CHARTER.meta.version && !env.CHARTERS) {
+        return builtInCharter(locale);
+    }
+
+    const cacheKey = `${wanted}:${locale}`;
+    const cached = compiledVersions.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    try {
+        const doc = env.CHARTERS ? await env.CHARTERS.get<CharterDocument>(versionKey(wanted), "json") : null;
+        if (!doc) {
+            if (wanted !== SALES_CHARTER.meta.version) {
+                console.warn("[loadCharter] Charter version not found, using built-in:", wanted);
+            }
+            return builtInCharter(locale);
+        }
+
+        const charter = compileCharter(doc, locale);
+        // Projects pin charter.meta.version, so it must match the key it was published under
+        if (charter.meta.version !== wanted) {
+            throw new Error(`stored charter declares version ${charter.meta.version}`);
+        }
+        compiledVersions.set(cacheKey, charter);
+        return charter;
+    } catch (error: any) {
+        console.error("[loadCharter] Error loading charter version", wanted, error);
+        return builtInCharter(locale);
+    }
+}
+
+/**
+ * Raw document for a version (for sales ops to export and edit), or the built-in document
+ */
+export async function getCharterDocument(env: Env, version?: string): Promise<{ version: string; source: "kv" | "builtin"; document: CharterDocument }> {
+    const wanted = version || await getCurrentCharterVersion(env);
+    const doc = env.CHARTERS ? await env.CHARTERS.get<CharterDocument>(versionKey(wanted), "json") : null;
+    if (doc) {
+        return { version: wanted, source: "kv", document: doc };
+    }
+    return { version: SALES_CHARTER.meta.version, source: "builtin", document: SALES_CHARTER_DOCUMENT };
+}
+
+function builtInCharter(locale: Locale): Charter {
+    if (locale === DEFAULT_LOCALE) {
+        return SALES_CHARTER;
+    }
+    const cacheKey = `builtin:${locale}`;
+    let charter = compiledVersions.get(cacheKey);
+    if (!charter) {
+        charter = compileCharter(SALES_CHARTER_DOCUMENT, locale);
+        compiledVersions.set(cacheKey, charter);
+    }
+    return charter;
+}
+
+function versionKey(version: string): string {
+    return `sales:v:${version}`;
+}
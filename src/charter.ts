@@ -3,6 +3,37 @@
  * Defines the values, rules, and behavior patterns for the Packageha Sales Associate
  */
 
+import { AnswerType, Locale } from "./types";
+import { CharterDocument, compileCharter } from "./charter-schema";
+import { languageRule } from "./i18n";
+import { LAUNCH_KIT_SERVICES, NO_SERVICES_OPTION, NO_SERVICES_OPTION_AR, serviceOption } from "./launch-kit";
+
+/**
+ * Condition on earlier answers (serializable - used in JSON charters)
+ * Leaf conditions test one step's answer; all/any/not combine them
+ */
+export type StepCondition =
+    | {
+        stepId: string;
+        answered?: boolean; // true: has any answer, false: unanswered
+        equals?: string | string[]; // Whole answer equals one of the values (case-insensitive)
+        notEquals?: string | string[]; // Answered, and equals none of the values
+        includes?: string | string[]; // Answer mentions one of the values (multi-select answers are comma-separated)
+    }
+    | { all: StepCondition[] }
+    | { any: StepCondition[] }
+    | { not: StepCondition };
+
+// Decisions made from an answer, revisited when the answer is edited (see dependencies.ts)
+// package_fit: the product must still fit the chosen package; package_choice: the package search used it; quote: it is on the draft order
+export type StepDependent = "package_fit" | "package_choice" | "quote";
+
+// Localized text for a step - options are in the same order (and grouping) as the step's own
+export interface StepTranslation {
+    question?: string;
+    options?: string[] | string[][];
+}
+
 export interface CharterStep {
     id: string;
     question: string;
@@ -10,6 +41,11 @@ export interface CharterStep {
     options?: string[] | string[][]; // Optional predefined options - can be flat array or grouped array (for grouped mode)
     multiple?: boolean | "grouped"; // If true, allow multiple selections (checkboxes), if false, single selection (radio buttons), if "grouped", first group is radio, rest are checkboxes
     defaultValue?: string; // Optional default value for UI hints
+    answerType?: AnswerType; // Parsed into memory.answers (default "text" - kept as typed)
+    translations?: Partial<Record<Locale, StepTranslation>>; // question/options is the English (canonical) text
+    showIf?: StepCondition; // Only ask (and only quote the answer) when this holds
+    parentId?: string; // Set on follow-up steps - the step whose answer triggers them
+    affects?: StepDependent[]; // Later decisions that depend on this answer
 }
 
 export interface CharterPhase {
@@ -48,7 +84,11 @@ export interface Charter {
     };
 }
 
-export const SALES_CHARTER: Charter = {
+/**
+ * Built-in sales charter, in the serializable document format (see charter-schema.ts)
+ * Used when no charter version is published in the CHARTERS store
+ */
+export const SALES_CHARTER_DOCUMENT: CharterDocument = {
     meta: {
         name: "Packageha Sales Associate",
         tone: "Professional, thorough, and consultative. Always helpful, never pushy.",
@@ -89,32 +129,71 @@ export const SALES_CHARTER: Charter = {
         steps: [
             {
                 id: "product_description",
+                affects: ["package_choice", "quote"],
                 question: "First, tell me about your product. What is it? What does it do?",
+                translations: { ar: { question: "أولاً، أخبرني عن منتجك. ما هو؟ ماذا يفعل؟" } }
             },
             {
                 id: "product_dimensions",
+                affects: ["package_fit", "quote"],
                 question: "What are your product dimensions? (Length x Width x Height in cm or inches)",
-                validation: (answer: string) => {
-                    const hasNumbers = /\d/.test(answer);
-                    if (!hasNumbers) return "Please include dimensions with numbers (e.g., 20x15x10 cm).";
-                    return true;
-                }
+                answerType: "dimensions",
+                validators: [
+                    { type: "regex", pattern: "\\d", message: "Please include dimensions with numbers (e.g., 20x15x10 cm).", translations: { ar: "يرجى كتابة الأبعاد بالأرقام (مثال: 20x15x10 سم)." } }
+                ],
+                translations: { ar: { question: "ما هي أبعاد منتجك؟ (الطول × العرض × الارتفاع بالسم أو البوصة)" } }
             },
             {
                 id: "product_weight",
+                affects: ["package_choice", "quote"],
                 question: "Approximately how much does your product weigh? (grams or ounces)",
+                answerType: "weight",
+                translations: { ar: { question: "ما هو الوزن التقريبي لمنتجك؟ (جرام أو أونصة)" } }
             },
             {
                 id: "fragility",
+                affects: ["package_choice", "quote"],
                 question: "Is your product fragile? Does it need special protection?",
+                answerType: "enum",
                 options: ["Not fragile", "Somewhat fragile", "Very fragile", "Needs cushioning/protection"],
-                multiple: false
+                multiple: false,
+                translations: {
+                    ar: {
+                        question: "هل منتجك هش؟ هل يحتاج إلى حماية خاصة؟",
+                        options: ["ليس هشاً/قابل للكسر", "هش قليلاً/قابل للكسر قليلاً", "هش جداً/قابل للكسر جداً", "يحتاج إلى وسادة/حماية (قابل للكسر)"]
+                    }
+                },
+                followUps: [
+                    {
+                        id: "cushioning",
+                        affects: ["quote"],
+                        question: "What kind of cushioning would you like inside the package?",
+                        answerType: "enum",
+                        options: ["Foam inserts", "Molded pulp", "Bubble wrap", "Paper fill", "Not sure - recommend one"],
+                        multiple: true,
+                        showIf: { stepId: "fragility", notEquals: "Not fragile" },
+                        translations: {
+                            ar: {
+                                question: "ما نوع الحشوة التي تفضلها داخل الغلاف؟",
+                                options: ["حشوات إسفنجية", "لب ورق مقولب", "غلاف فقاعي", "حشو ورقي", "لست متأكداً - اقترح لي"]
+                            }
+                        }
+                    }
+                ]
             },
             {
                 id: "budget",
+                affects: ["package_choice", "quote"],
                 question: "What's your budget range for packaging? (per unit or total)",
+                answerType: "money_range",
                 options: ["Under 1 SAR/unit", "1-5 SAR/unit", "5-10 SAR/unit", "10-20 SAR/unit", "20+ SAR/unit", "Budget flexible", "Will discuss"],
-                multiple: false
+                multiple: false,
+                translations: {
+                    ar: {
+                        question: "ما هي نطاق ميزانيتك للتغليف؟ (لكل وحدة أو الإجمالي)",
+                        options: ["أقل من 1 ريال/وحدة", "1-5 ريال/وحدة", "5-10 ريال/وحدة", "10-20 ريال/وحدة", "20+ ريال/وحدة", "الميزانية مرنة", "سأناقش"]
+                    }
+                }
             }
         ]
     },
@@ -127,13 +206,23 @@ export const SALES_CHARTER: Charter = {
         steps: [
             { 
                 id: "material", 
+                affects: ["quote"],
                 question: "Do you have a preference for Material?",
+                answerType: "enum",
                 options: ["Corrugated", "Folding Carton", "Rigid Box", "Paperboard", "Kraft", "White Cardboard"],
-                multiple: false // Single selection (radio buttons)
+                multiple: false, // Single selection (radio buttons)
+                translations: {
+                    ar: {
+                        question: "هل لديك تفضيل لنوع المادة؟",
+                        options: ["كرتون مموج", "كرتون قابل للطي", "علبة صلبة", "ورق مقوى", "كرافت", "كرتون أبيض"]
+                    }
+                }
             },
             { 
                 id: "print", 
+                affects: ["quote"],
                 question: "Tell me about the Printing/Finish.",
+                answerType: "enum",
                 // Grouped options: first array is mutually exclusive (radio), second array can be combined (checkboxes)
                 options: [
                     // Printing type - mutually exclusive (choose one)
@@ -141,7 +230,33 @@ export const SALES_CHARTER: Charter = {
                     // Finishing options - can be combined (select multiple)
                     ["Gold foil", "Silver foil", "Matte lamination", "Glossy lamination", "UV coating", "Embossing", "Debossing"]
                 ],
-                multiple: "grouped" // Special mode: first group is radio, second group is checkboxes
+                multiple: "grouped", // Special mode: first group is radio, second group is checkboxes
+                translations: {
+                    ar: {
+                        question: "أخبرني عن الطباعة والتشطيب.",
+                        options: [
+                            ["طباعة كاملة الألوان", "الشعار فقط", "بدون طباعة"],
+                            ["ختم ذهبي", "ختم فضي", "تغليف مطفي", "تغليف لامع", "طلاء UV", "نقش بارز", "نقش غائر"]
+                        ]
+                    }
+                },
+                followUps: [
+                    {
+                        id: "foil_color",
+                        affects: ["quote"],
+                        question: "Which shade of gold foil would you like?",
+                        answerType: "enum",
+                        options: ["Bright gold", "Matte gold", "Rose gold", "Champagne gold"],
+                        multiple: false,
+                        showIf: { stepId: "print", includes: "Gold foil" },
+                        translations: {
+                            ar: {
+                                question: "ما درجة الختم الذهبي التي تفضلها؟",
+                                options: ["ذهبي لامع", "ذهبي مطفي", "ذهبي وردي", "ذهبي شامبانيا"]
+                            }
+                        }
+                    }
+                ]
             }
         ]
     },
@@ -152,32 +267,40 @@ export const SALES_CHARTER: Charter = {
         steps: [
             { 
                 id: "quantity", 
+                affects: ["quote"],
                 question: "What quantity would you like to order?",
-                validation: (answer: string) => {
-                    const match = answer.match(/(\d+(?:\.\d+)?)/);
-                    if (!match) {
-                        return "Please provide a valid quantity (e.g., 100, 500, 1000).";
-                    }
-                    const num = Math.floor(parseFloat(match[1]));
-                    if (!num || num < 1) {
-                        return "Please provide a valid quantity (e.g., 100, 500, 1000).";
-                    }
-                    return true;
-                }
+                answerType: "quantity",
+                validators: [
+                    { type: "range", min: 1, integer: true, message: "Please provide a valid quantity (e.g., 100, 500, 1000).", translations: { ar: "يرجى إدخال كمية صحيحة (مثال: 100، 500، 1000)." } }
+                ],
+                translations: { ar: { question: "ما الكمية التي ترغب في طلبها؟" } }
             },
             { 
                 id: "timeline", 
+                affects: ["quote"],
                 question: "When is your deadline for delivery?",
+                answerType: "enum",
                 options: ["1-2 weeks", "2-4 weeks", "1-2 months", "2-3 months", "3+ months", "Flexible"],
-                multiple: false
+                multiple: false,
+                translations: {
+                    ar: {
+                        question: "متى موعدك النهائي للتسليم؟",
+                        options: ["1-2 أسبوع", "2-4 أسابيع", "1-2 شهر", "2-3 أشهر", "أكثر من 3 أشهر", "مرن"]
+                    }
+                }
             },
             {
                 id: "shipping_address",
+                affects: ["quote"],
                 question: "Where should we deliver the order? (Please provide shipping address or city/region)",
+                answerType: "address",
+                translations: { ar: { question: "أين نوصل الطلب؟ (يرجى كتابة عنوان الشحن أو المدينة/المنطقة)" } }
             },
             {
                 id: "special_instructions",
+                affects: ["quote"],
                 question: "Any special fulfillment instructions or requirements? (optional - type 'none' to skip)",
+                translations: { ar: { question: "هل لديك تعليمات أو متطلبات خاصة للتنفيذ؟ (اختياري - اكتب 'لا شيء' للتخطي)" } }
             }
         ]
     },
@@ -188,27 +311,38 @@ export const SALES_CHARTER: Charter = {
         steps: [
             {
                 id: "service_selection",
+                affects: ["quote"],
                 question: "Would you like to add any brand launch services? (Select all that apply)",
-                options: [
-                    "Hero shot photography - 1,200 SAR",
-                    "Stop-motion unboxing video - 1,800 SAR",
-                    "E-commerce product photos - 900 SAR",
-                    "3D render with packaging for website - 1,500 SAR",
-                    "Package design consultation - 600 SAR",
-                    "Brand styling consultation - 700 SAR",
-                    "None - skip launch services"
-                ],
-                multiple: true // Checkboxes - can select multiple
+                answerType: "enum",
+                // From the launch kit catalog, so the options show the prices the quote charges
+                options: [...LAUNCH_KIT_SERVICES.map(service => serviceOption(service)), NO_SERVICES_OPTION],
+                multiple: true, // Checkboxes - can select multiple
+                translations: {
+                    ar: {
+                        question: "هل ترغب في إضافة أي من خدمات إطلاق العلامة التجارية؟ (اختر كل ما يناسبك)",
+                        options: [...LAUNCH_KIT_SERVICES.map(service => serviceOption(service, "ar")), NO_SERVICES_OPTION_AR]
+                    }
+                }
             },
             {
                 id: "service_timeline",
+                affects: ["quote"],
                 question: "What's your timeline for these services?",
+                answerType: "enum",
                 options: ["ASAP", "1-2 weeks", "2-4 weeks", "1-2 months", "Flexible"],
-                multiple: false
+                multiple: false,
+                translations: {
+                    ar: {
+                        question: "ما هو الجدول الزمني لهذه الخدمات؟",
+                        options: ["في أقرب وقت", "1-2 أسبوع", "2-4 أسابيع", "1-2 شهر", "مرن"]
+                    }
+                }
             },
             {
                 id: "service_notes",
+                affects: ["quote"],
                 question: "Any specific requirements or details for the launch services? (optional - type 'none' to skip)",
+                translations: { ar: { question: "هل لديك متطلبات أو تفاصيل محددة لخدمات الإطلاق؟ (اختياري - اكتب 'لا شيء' للتخطي)" } }
             }
         ]
     },
@@ -220,6 +354,8 @@ export const SALES_CHARTER: Charter = {
     }
 };
 
+export const SALES_CHARTER: Charter = compileCharter(SALES_CHARTER_DOCUMENT);
+
 /**
  * Launch Kit Charter - Studio services ordering
  * @deprecated - Integrated into SALES_CHARTER.launchKit
@@ -269,7 +405,7 @@ export const LAUNCH_KIT_CHARTER: Charter = {
 /**
  * Build a system prompt from the Charter for AI calls
  */
-export function buildCharterPrompt(phase: "discovery" | "variant" | "consultation", charter: Charter = SALES_CHARTER): string {
+export function buildCharterPrompt(phase: "discovery" | "variant" | "consultation", charter: Charter = SALES_CHARTER, locale?: Locale): string {
     let prompt = `You are ${charter.meta.name}. ${charter.meta.tone}\n\n`;
 
     if (phase === "discovery") {
@@ -282,6 +418,57 @@ export function buildCharterPrompt(phase: "discovery" | "variant" | "consultatio
         prompt += `MISSION: ${charter.consultation.mission}\n\n`;
     }
 
+    if (locale) {
+        prompt += `- ${languageRule(locale)}\n`;
+    }
     prompt += `\nAlways follow these rules strictly. Return valid JSON only.`;
     return prompt;
 }
+
+/**
+ * Build a system prompt for free-form conversational replies (streamed as plain text, not JSON)
+ * `context` summarizes where the customer is in the consultation
+ */
+export function buildConversationPrompt(context: string, charter: Charter = SALES_CHARTER): string {
+    let prompt = `You are ${charter.meta.name}. ${charter.meta.tone}\n\n`;
+    prompt += `MISSION: Answer the customer's packaging questions clearly and briefly. Do not invent prices, stock levels or delivery dates - suggest continuing the consultation for an exact quote.\n\n`;
+    if (context) {
+        prompt += `CONSULTATION SO FAR:\n${context}\n\n`;
+    }
+    prompt += `Reply in plain text (no JSON, no markdown code blocks), in the customer's language.`;
+    return prompt;
+}
+
+/**
+ * Evaluate a step condition against the answers collected so far
+ */
+export function evaluateCondition(condition: StepCondition, answers: Record<string, string>): boolean {
+    if ("all" in condition) return condition.all.every(c => evaluateCondition(c, answers));
+    if ("any" in condition) return condition.any.some(c => evaluateCondition(c, answers));
+    if ("not" in condition) return !evaluateCondition(condition.not, answers);
+
+    const answer = (answers[condition.stepId] || "").trim().toLowerCase();
+    const toList = (values: string | string[]) => (Array.isArray(values) ? values : [values]).map(v => v.trim().toLowerCase());
+
+    if (condition.answered !== undefined && condition.answered !== !!answer) return false;
+    if (condition.equals !== undefined && !toList(condition.equals).includes(answer)) return false;
+    if (condition.notEquals !== undefined && (!answer || toList(condition.notEquals).includes(answer))) return false;
+    if (condition.includes !== undefined && !toList(condition.includes).some(value => answer.includes(value))) return false;
+    return true;
+}
+
+export function isStepVisible(step: CharterStep, answers: Record<string, string>): boolean {
+    return !step.showIf || evaluateCondition(step.showIf, answers);
+}
+
+/**
+ * Index of the first visible, unanswered step at or after `from` (steps.length when there is none)
+ */
+export function nextOpenStepIndex(steps: CharterStep[], answers: Record<string, string>, from: number = 0): number {
+    for (let i = Math.max(from, 0); i < steps.length; i++) {
+        if (!answers[steps[i].id] && isStepVisible(steps[i], answers)) {
+            return i;
+        }
+    }
+    return steps.length;
+}
@@ -0,0 +1,54 @@
+/**
+ * Answer Dependencies
+ * Checks for the decisions a charter step `affects`, run when its answer is edited
+ */
+
+import { Memory } from "./types";
+import { getTypedAnswer, parseAnswerAs } from "./answers";
+import { Dimensions, fitMargin, PackageIndex } from "./package-index";
+
+// Whole-message phrases only - a plain "yes" may be the answer to the question the customer returned to
+const SEARCH_AGAIN = ["search again", "find packages", "new search", "ابحث مرة أخرى", "ابحث مرة اخرى", "ابحث من جديد"];
+
+/**
+ * Inside dimensions of the selected package: the custom package's own, else the selected variant's in the package index,
+ * else what its variant or name states ("Large - 30x20x10 cm")
+ */
+export function packageDimensions(memory: Memory, packageIndex?: PackageIndex): Dimensions | null {
+    if (memory.clipboard["custom_package"] === "true") {
+        return getTypedAnswer(memory, "custom_package_dimensions", "dimensions")?.cm || null;
+    }
+    const indexed = memory.packageId ? packageIndex?.[memory.packageId]?.variants.find(v => v.id === memory.selectedVariantId) : undefined;
+    if (indexed?.dimensions) {
+        return indexed.dimensions;
+    }
+    for (const text of [memory.selectedVariantName, memory.packageName]) {
+        if (!text) continue;
+        const parsed = parseAnswerAs("dimensions", text);
+        if (parsed.ok && parsed.answer.type === "dimensions") {
+            return parsed.answer.cm;
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether the product still fits the selected package, with the same clearance discovery requires (see fitMargin)
+ * - null when either size is unknown
+ */
+export function checkPackageFit(memory: Memory, packageIndex: PackageIndex | undefined, paddingCm: number): boolean | null {
+    const product = getTypedAnswer(memory, "product_dimensions", "dimensions");
+    const pkg = packageDimensions(memory, packageIndex);
+    if (!product || !pkg) {
+        return null;
+    }
+    return fitMargin(pkg, product.cm, paddingCm) >= 0;
+}
+
+/**
+ * Acceptance of the "search again?" offer made after an edit
+ */
+export function isSearchAgain(message: string): boolean {
+    const normalized = message.toLowerCase().trim().replace(/[.!]+$/, "");
+    return SEARCH_AGAIN.includes(normalized);
+}
@@ -0,0 +1,236 @@
+/**
+ * Flow Engine
+ * Runs declarative flow definitions: ordered stages that either ask a charter phase's questions or run their own handler
+ */
+
+import { Charter, CharterStep, isStepVisible, nextOpenStepIndex } from "./charter";
+import { t } from "./i18n";
+import { AgentFlow, Locale, Memory } from "./types";
+
+export type ConsultationPhaseName = "consultation" | "productDetails" | "packageSpecs" | "fulfillmentSpecs" | "launchKit";
+
+export interface FlowResult {
+    reply: string;
+    memoryReset?: boolean;
+    draftOrder?: any;
+    productMatches?: any[];
+    isAutoSearch?: boolean;
+}
+
+/**
+ * What the engine needs from the session for one turn
+ */
+export interface FlowContext {
+    memory: Memory;
+    charter: Charter;
+    locale: Locale;
+    acceptAnswer: (step: CharterStep, message: string) => string | null; // Reply when the answer was not stored
+    saveMemory: () => Promise<void>;
+    askQuestion?: (step: CharterStep) => string; // Question text to send (defaults to step.question)
+    onAnswerEdited?: (step: CharterStep) => Promise<string | null>; // Note on what a changed answer affects
+}
+
+export interface FlowStage {
+    id: string; // memory.step while the stage is active
+    aliases?: string[]; // Other memory.step values the stage's handler uses
+    phase?: ConsultationPhaseName; // Charter phase whose questions the stage asks
+    stepIds?: string[]; // Ask only these questions of the phase
+    handle?: (ctx: FlowContext, message: string) => Promise<FlowResult>; // Replaces phase answering (search, quote...)
+    onEnter?: (ctx: FlowContext) => Promise<FlowResult | null>; // null = ask the phase's next open question
+    onExit?: (ctx: FlowContext) => void;
+    next?: string | ((ctx: FlowContext) => string); // Stage entered once this one completes
+}
+
+export interface FlowDefinition {
+    id: AgentFlow;
+    start: string; // Stage entered from "start" (or from a step the flow doesn't know)
+    stages: FlowStage[];
+    intercept?: (ctx: FlowContext, message: string) => Promise<FlowResult | null>; // Sees every message first; null = not handled
+}
+
+/**
+ * Stage owning a memory.step value (by id or alias)
+ */
+export function findStage(flow: FlowDefinition, step: string): FlowStage | undefined {
+    return flow.stages.find(stage => stage.id === step || (stage.aliases || []).includes(step));
+}
+
+/**
+ * Questions asked by a stage, or null when the stage has no charter phase
+ */
+export function getStageSteps(stage: FlowStage, charter: Charter): CharterStep[] | null {
+    const steps = stage.phase ? charter[stage.phase]?.steps || null : null;
+    const stepIds = stage.stepIds;
+    return steps && stepIds ? steps.filter(step => stepIds.includes(step.id)) : steps;
+}
+
+/**
+ * Stage that asks a question (used to open a question for editing)
+ */
+export function findQuestionStage(flow: FlowDefinition, charter: Charter, questionId: string): { stage: FlowStage; step: CharterStep } | null {
+    for (const stage of flow.stages) {
+        const step = getStageSteps(stage, charter)?.find(s => s.id === questionId);
+        if (step) {
+            return { stage, step };
+        }
+    }
+    return null;
+}
+
+/**
+ * Handle one user message in the flow's current stage
+ */
+export async function runFlow(flow: FlowDefinition, ctx: FlowContext, message: string): Promise<FlowResult> {
+    const intercepted = flow.intercept ? await flow.intercept(ctx, message) : null;
+    if (intercepted) {
+        return intercepted;
+    }
+
+    const stage = findStage(flow, ctx.memory.step);
+    if (!stage) {
+        if (ctx.memory.step !== "start") {
+            console.log("[runFlow] Unknown step, restarting flow:", ctx.memory.step);
+        }
+        return await enterStage(flow, ctx, flow.start);
+    }
+    if (stage.handle) {
+        return await stage.handle(ctx, message);
+    }
+    return await answerPhase(flow, stage, ctx, message);
+}
+
+/**
+ * Move into a stage and return its opening reply
+ * Phase stages resume at their first open question, and are passed through when everything is already answered
+ */
+export async function enterStage(flow: FlowDefinition, ctx: FlowContext, stageId: string): Promise<FlowResult> {
+    const stage = flow.stages.find(s => s.id === stageId);
+    if (!stage) {
+        console.error("[enterStage] Error: unknown stage", stageId, "in flow", flow.id);
+        return { reply: t(ctx.locale, "genericError") };
+    }
+
+    ctx.memory.step = stage.id;
+    ctx.memory.questionIndex = 0;
+
+    if (stage.onEnter) {
+        const result = await stage.onEnter(ctx);
+        if (result) return result;
+    }
+
+    if (!stage.phase) {
+        return stage.handle ? await stage.handle(ctx, "") : await completeStage(flow, stage, ctx);
+    }
+
+    const steps = getStageSteps(stage, ctx.charter);
+    if (!steps) {
+        console.error("[enterStage] Error: charter has no phase", stage.phase, "for stage", stage.id);
+        return { reply: t(ctx.locale, "genericError") };
+    }
+    const index = nextOpenStepIndex(steps, ctx.memory.clipboard);
+    if (index >= steps.length) {
+        return await completeStage(flow, stage, ctx);
+    }
+    ctx.memory.questionIndex = index;
+    return { reply: ask(ctx, steps[index]) };
+}
+
+/**
+ * Leave a stage for the one its `next` rule picks
+ */
+export async function completeStage(flow: FlowDefinition, stage: FlowStage, ctx: FlowContext): Promise<FlowResult> {
+    stage.onExit?.(ctx);
+    const next = typeof stage.next === "function" ? stage.next(ctx) : stage.next;
+    if (!next) {
+        console.error("[completeStage] Error: stage has no next stage", stage.id, "in flow", flow.id);
+        return { reply: t(ctx.locale, "genericError") };
+    }
+    return await enterStage(flow, ctx, next);
+}
+
+/**
+ * Answer the open question of a phase stage (or the question being edited)
+ */
+async function answerPhase(flow: FlowDefinition, stage: FlowStage, ctx: FlowContext, message: string): Promise<FlowResult> {
+    const memory = ctx.memory;
+    const steps = getStageSteps(stage, ctx.charter);
+    if (!steps) {
+        console.error("[answerPhase] Error: charter has no phase", stage.phase, "for stage", stage.id);
+        return { reply: t(ctx.locale, "genericError") };
+    }
+
+    // The question being answered is the one currentQuestion showed: the next open (visible, unanswered) step
+    const openIndex = nextOpenStepIndex(steps, memory.clipboard, memory.questionIndex);
+
+    // Empty message (initial load or after a transition) - repeat the open question
+    if (!message || message.trim() === "") {
+        if (openIndex >= steps.length) {
+            return await completeStage(flow, stage, ctx);
+        }
+        memory.questionIndex = openIndex;
+        return { reply: ask(ctx, steps[openIndex]) };
+    }
+
+    const editingStep = memory.editing ? steps.find(s => s.id === memory.editing!.questionId) : undefined;
+    if (editingStep) {
+        return await answerEdit(ctx, steps, editingStep, message);
+    }
+
+    if (openIndex >= steps.length) {
+        return await completeStage(flow, stage, ctx);
+    }
+
+    const answerReply = ctx.acceptAnswer(steps[openIndex], message);
+    if (answerReply) {
+        return { reply: answerReply };
+    }
+
+    // Follow-ups this answer unlocked come next, then the next visible question
+    const nextIndex = nextOpenStepIndex(steps, memory.clipboard, openIndex + 1);
+    if (nextIndex < steps.length) {
+        memory.questionIndex = nextIndex;
+        return { reply: ask(ctx, steps[nextIndex]) };
+    }
+    return await completeStage(flow, stage, ctx);
+}
+
+/**
+ * Edits only update the answer, then return to where the customer was
+ * Decisions built on the old answer (its `affects`) are reviewed by the session, and its note is added to the reply
+ */
+async function answerEdit(ctx: FlowContext, steps: CharterStep[], editingStep: CharterStep, message: string): Promise<FlowResult> {
+    const memory = ctx.memory;
+    const previousAnswer = memory.clipboard[editingStep.id];
+    const answerReply = ctx.acceptAnswer(editingStep, message);
+    if (answerReply) {
+        return { reply: answerReply };
+    }
+    const changed = memory.clipboard[editingStep.id] !== previousAnswer;
+    const note = changed && ctx.onAnswerEdited ? await ctx.onAnswerEdited(editingStep) : null;
+    const withNote = (reply: string) => note ? `${reply}\n\n${note}` : reply;
+
+    // The new answer may reveal a follow-up (e.g. "Gold foil" now picked) - ask it as part of the edit
+    const followUpIndex = steps.findIndex(s =>
+        s.parentId === editingStep.id && !memory.clipboard[s.id] && isStepVisible(s, memory.clipboard)
+    );
+    if (followUpIndex >= 0) {
+        memory.editing = { ...memory.editing!, questionId: steps[followUpIndex].id };
+        memory.questionIndex = followUpIndex; // Original position is still in memory.editing
+        await ctx.saveMemory();
+        return { reply: withNote(ask(ctx, steps[followUpIndex])) };
+    }
+
+    if (memory.editing) {
+        memory.step = memory.editing.returnStep;
+        memory.questionIndex = memory.editing.returnQuestionIndex;
+        delete memory.editing;
+    }
+    await ctx.saveMemory();
+
+    // Frontend shows the updated answer
+    return { reply: withNote(t(ctx.locale, "answerUpdated", { question: editingStep.question })) };
+}
+
+function ask(ctx: FlowContext, step: CharterStep): string {
+    return ctx.askQuestion ? ctx.askQuestion(step) : step.question;
+}
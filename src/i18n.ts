@@ -0,0 +1,610 @@
+/**
+ * Localization
+ * Reply language detection, the bot's message catalog, and mapping localized option picks back to charter options
+ */
+
+import { Locale } from "./types";
+import { CharterStep } from "./charter";
+
+export const DEFAULT_LOCALE: Locale = "en";
+export const SUPPORTED_LOCALES: Locale[] = ["en", "ar"];
+
+const ARABIC_LETTERS = /[؀-ۿݐ-ݿ]/g;
+const LATIN_LETTERS = /[A-Za-z]/g;
+const ARABIC_DIGITS = /[٠-٩۰-۹]/g;
+
+const MESSAGES = {
+    genericError: {
+        en: "I encountered an error. Please try again or type 'reset' to start over.",
+        ar: "حدث خطأ. يرجى المحاولة مرة أخرى أو اكتب 'إعادة' للبدء من جديد.",
+    },
+    unknownFlow: {
+        en: "I'm not sure what to do. Type 'reset' to start over.",
+        ar: "لست متأكداً مما يجب فعله. اكتب 'إعادة' للبدء من جديد.",
+    },
+    memoryReset: {
+        en: "♻️ Memory reset. Starting fresh! What packaging solution are you looking for?",
+        ar: "♻️ تمت إعادة الضبط. لنبدأ من جديد! ما حل التغليف الذي تبحث عنه؟",
+    },
+    welcomeBack: {
+        en: "Welcome back! {progress} Would you like to resume where you left off, or start a new project?",
+        ar: "أهلاً بعودتك! {progress} هل تريد المتابعة من حيث توقفت، أم بدء مشروع جديد؟",
+    },
+    resumeProgress: {
+        en: "You were working on **{project}**.",
+        ar: "كنت تعمل على **{project}**.",
+    },
+    resumeProgressWithPackage: {
+        en: "You were working on **{project}** with **{package}**.",
+        ar: "كنت تعمل على **{project}** مع **{package}**.",
+    },
+    resumeOption: {
+        en: "Resume where I left off",
+        ar: "المتابعة من حيث توقفت",
+    },
+    newProjectOption: {
+        en: "Start a new project",
+        ar: "بدء مشروع جديد",
+    },
+    resumeQuestion: {
+        en: "Resume where you left off?",
+        ar: "المتابعة من حيث توقفت؟",
+    },
+    greeting: {
+        en: "Hello! I'm your packaging consultant. What are you looking for? (e.g., 'Custom Boxes', 'Bags', 'Printing Services')",
+        ar: "مرحباً! أنا مستشار التغليف الخاص بك. ما الذي تبحث عنه؟ (مثل: 'علب مخصصة'، 'أكياس'، 'خدمات طباعة')",
+    },
+    askPackage: {
+        en: "What package are you looking for?",
+        ar: "ما الغلاف الذي تبحث عنه؟",
+    },
+    findPackage: {
+        en: "Great! Now let's find the perfect package for your product. What type of packaging are you looking for?",
+        ar: "رائع! لنجد الآن الغلاف المثالي لمنتجك. ما نوع التغليف الذي تبحث عنه؟",
+    },
+    selectMatchNumber: {
+        en: "Please select a number between 1 and {count}:\n\n{matches}",
+        ar: "يرجى اختيار رقم بين 1 و{count}:\n\n{matches}",
+    },
+    invalidMatchSelection: {
+        en: "Invalid selection. Please search for packages again.",
+        ar: "اختيار غير صالح. يرجى البحث عن الأغلفة مرة أخرى.",
+    },
+    variantsLost: {
+        en: "I lost track of the product options. Type 'reset' to start over.",
+        ar: "فقدت خيارات المنتج. اكتب 'reset' للبدء من جديد.",
+    },
+    packageAlreadySelected: {
+        en: "Package already selected. Moving forward...",
+        ar: "تم اختيار الغلاف بالفعل. لننتقل إلى الخطوة التالية...",
+    },
+    statusLoadingCatalog: {
+        en: "Loading package catalog",
+        ar: "جارٍ تحميل كتالوج الأغلفة",
+    },
+    statusFindingSimilar: {
+        en: "Finding similar packages",
+        ar: "جارٍ البحث عن أغلفة مشابهة",
+    },
+    statusScoring: {
+        en: "Scoring {count} packages",
+        ar: "جارٍ تقييم {count} غلافاً",
+    },
+    statusLoadingOrder: {
+        en: "Loading your previous order",
+        ar: "جارٍ تحميل طلبك السابق",
+    },
+    statusCreatingDraftOrder: {
+        en: "Creating your draft order",
+        ar: "جارٍ إنشاء مسودة طلبك",
+    },
+    statusCreatingSample: {
+        en: "Creating your sample order",
+        ar: "جارٍ إنشاء طلب العينة",
+    },
+    matchReasonDefault: {
+        en: "Suitable for your product",
+        ar: "مناسب لمنتجك",
+    },
+    matchReasonAvailable: {
+        en: "Available package option",
+        ar: "خيار تغليف متاح",
+    },
+    matchReasonKeyword: {
+        en: "Matches your product (1 keyword found)",
+        ar: "يطابق منتجك (كلمة مفتاحية واحدة)",
+    },
+    matchReasonKeywords: {
+        en: "Matches your product ({count} keywords found)",
+        ar: "يطابق منتجك ({count} كلمات مفتاحية)",
+    },
+    packageFound: {
+        en: "Found **{name}**.",
+        ar: "وجدت **{name}**.",
+    },
+    chooseVariant: {
+        en: "Found **{name}**.\n\nWhich type are you interested in?\n\nOptions: {options}",
+        ar: "وجدت **{name}**.\n\nأي نوع يناسبك؟\n\nالخيارات: {options}",
+    },
+    variantFits: {
+        en: "**{name}** is the smallest size your product fits.",
+        ar: "**{name}** هو أصغر مقاس يناسب منتجك.",
+    },
+    variantSelected: {
+        en: "Selected **{name}**.",
+        ar: "تم اختيار **{name}**.",
+    },
+    projectDetailsIntro: {
+        en: "Let's get your project details.",
+        ar: "لنبدأ بتفاصيل مشروعك.",
+    },
+    catalogUnavailable: {
+        en: "I'm having trouble accessing the package catalog. Please try again later.",
+        ar: "أواجه مشكلة في الوصول إلى كتالوج الأغلفة. يرجى المحاولة لاحقاً.",
+    },
+    searchRateLimited: {
+        en: "You've run a lot of package searches in a short time. Please try again in about {minutes} minute{plural}.",
+        ar: "أجريت عمليات بحث كثيرة خلال وقت قصير. يرجى المحاولة مرة أخرى بعد {minutes} دقيقة تقريباً.",
+    },
+    matchesFound: {
+        en: "I found {count} matching packages. They are sorted by relevance and price.",
+        ar: "وجدت {count} غلافاً مناسباً، مرتبة حسب الملاءمة والسعر.",
+    },
+    noPackageFits: {
+        en: "None of our packages can hold a product of {dimensions} with {padding} cm of padding. Reply \"custom package: L x W x H cm\" to request a custom size, or edit your product dimensions.",
+        ar: "لا يوجد لدينا غلاف يتسع لمنتج بأبعاد {dimensions} مع {padding} سم من الحشو. اكتب \"custom package: الطول x العرض x الارتفاع cm\" لطلب مقاس مخصص، أو عدّل أبعاد منتجك.",
+    },
+    fitMargin: {
+        en: "fits with {margin} cm to spare ({variant})",
+        ar: "يتسع مع {margin} سم إضافية ({variant})",
+    },
+    fitUnknown: {
+        en: "size not listed, please check it fits",
+        ar: "المقاس غير مذكور، يرجى التأكد من ملاءمته",
+    },
+    noPackageMeetsNeeds: {
+        en: "None of our packages meets your product's needs ({needs}). Reply \"custom package: L x W x H cm\" to request a custom package, or edit your answers.",
+        ar: "لا يوجد لدينا غلاف يلبي احتياجات منتجك ({needs}). اكتب \"custom package: الطول x العرض x الارتفاع cm\" لطلب غلاف مخصص، أو عدّل إجاباتك.",
+    },
+    needsCushioning: {
+        en: "room for cushioning",
+        ar: "مساحة للحشوة",
+    },
+    loadOk: {
+        en: "carries up to {load}",
+        ar: "يتحمل حتى {load}",
+    },
+    loadNearLimit: {
+        en: "close to its {load} load limit",
+        ar: "قريب من حد التحمل {load}",
+    },
+    loadUnknown: {
+        en: "load limit not listed",
+        ar: "حد التحمل غير مذكور",
+    },
+    protectionCushioned: {
+        en: "takes cushioning inserts",
+        ar: "يتسع لحشوات الحماية",
+    },
+    protectionPadded: {
+        en: "padded protection",
+        ar: "حماية مبطنة",
+    },
+    protectionLight: {
+        en: "light protection for a fragile product",
+        ar: "حماية خفيفة لمنتج هش",
+    },
+    protectionUnknown: {
+        en: "protection level not listed",
+        ar: "مستوى الحماية غير مذكور",
+    },
+    budgetWithin: {
+        en: "{cost} SAR/unit, within your budget",
+        ar: "{cost} ريال/وحدة، ضمن ميزانيتك",
+    },
+    budgetOver: {
+        en: "{cost} SAR/unit, over your budget ({budget})",
+        ar: "{cost} ريال/وحدة، أعلى من ميزانيتك ({budget})",
+    },
+    budgetUnder: {
+        en: "{cost} SAR/unit, below your budget range ({budget})",
+        ar: "{cost} ريال/وحدة، أقل من نطاق ميزانيتك ({budget})",
+    },
+    overBudgetShown: {
+        en: "None of these packages is within your budget of {budget}, so I've listed them all with their cost per unit. You can edit your budget or pick the closest one.",
+        ar: "لا يوجد من هذه الأغلفة ما هو ضمن ميزانيتك ({budget})، لذا عرضتها جميعاً مع تكلفة الوحدة. يمكنك تعديل ميزانيتك أو اختيار الأقرب.",
+    },
+    fallbackMatchesFound: {
+        en: "I found {count} available packages{note}. They are sorted by relevance.",
+        ar: "وجدت {count} غلافاً متاحاً{note}، مرتبة حسب الملاءمة.",
+    },
+    basedOn: {
+        en: " based on \"{description}\"",
+        ar: " بناءً على \"{description}\"",
+    },
+    startOver: {
+        en: "Okay, let's start over. What are you looking for?",
+        ar: "حسناً، لنبدأ من جديد. ما الذي تبحث عنه؟",
+    },
+    selectOption: {
+        en: "Please select one of the options listed above.",
+        ar: "يرجى اختيار أحد الخيارات المذكورة أعلاه.",
+    },
+    invalidAnswer: {
+        en: "Please provide a valid answer.",
+        ar: "يرجى تقديم إجابة صحيحة.",
+    },
+    answerUpdated: {
+        en: "✓ Answer updated for \"{question}\". You can continue or edit other questions.",
+        ar: "✓ تم تحديث الإجابة على \"{question}\". يمكنك المتابعة أو تعديل أسئلة أخرى.",
+    },
+    packageNoLongerFits: {
+        en: "⚠️ Your product no longer fits **{package}** at these dimensions. Reply \"search again\" to find packages that fit, or keep going with it.",
+        ar: "⚠️ منتجك لم يعد يتسع في **{package}** بهذه الأبعاد. اكتب \"ابحث مرة أخرى\" لإيجاد أغلفة مناسبة، أو تابع به.",
+    },
+    customPackageNoLongerFits: {
+        en: "⚠️ Your product no longer fits the custom package dimensions you gave. You may want to edit them too.",
+        ar: "⚠️ منتجك لم يعد يتسع في أبعاد الغلاف المخصص التي أدخلتها. قد ترغب في تعديلها أيضاً.",
+    },
+    offerRediscovery: {
+        en: "**{package}** was picked for your earlier answer. Reply \"search again\" for a fresh package search, or keep going with it.",
+        ar: "تم اختيار **{package}** بناءً على إجابتك السابقة. اكتب \"ابحث مرة أخرى\" لبحث جديد عن الأغلفة، أو تابع به.",
+    },
+    quoteOutdated: {
+        en: "Your draft order still has the old answer - regenerate it to update the quote.",
+        ar: "مسودة طلبك ما زالت بالإجابة السابقة - أعد إنشاءها لتحديث عرض السعر.",
+    },
+    unknownQuestion: {
+        en: "I couldn't find that question in this consultation.",
+        ar: "لم أجد هذا السؤال في هذه الاستشارة.",
+    },
+    packageSelectionUnavailable: {
+        en: "This consultation doesn't include choosing a package.",
+        ar: "هذه الاستشارة لا تتضمن اختيار غلاف.",
+    },
+    packageNotFound: {
+        en: "I couldn't find that package in the catalog.",
+        ar: "لم أجد هذا الغلاف في الكتالوج.",
+    },
+    variantNotFound: {
+        en: "That option isn't available for the selected package.",
+        ar: "هذا الخيار غير متاح للغلاف المختار.",
+    },
+    confirmAnswer: {
+        en: "Just to confirm - {assumption}: **{answer}**. Is that right? Reply \"yes\", or send the corrected answer.",
+        ar: "للتأكيد فقط - {assumption}: **{answer}**. هل هذا صحيح؟ اكتب \"نعم\" أو أرسل الإجابة الصحيحة.",
+    },
+    customPackageNoted: {
+        en: "Great! I've noted your custom package dimensions. Now let's specify the package details.",
+        ar: "رائع! سجلت أبعاد الغلاف المخصص. لنحدد الآن تفاصيل الغلاف.",
+    },
+    launchKitServices: {
+        en: "Here are our brand launch services:\n\n{catalog}\n\nWhich would you like? Reply with names or numbers, adding a quantity if you need more than one (e.g. \"1, 3 x2\").",
+        ar: "هذه خدمات إطلاق العلامة التجارية لدينا:\n\n{catalog}\n\nأي منها تريد؟ اكتب الأسماء أو الأرقام، مع الكمية إذا احتجت أكثر من واحدة (مثال: \"1، 3 x2\").",
+    },
+    launchKitUnknownServices: {
+        en: "I couldn't match \"{picks}\" to one of our services. Please choose from the list by name or number.",
+        ar: "لم أجد \"{picks}\" ضمن خدماتنا. يرجى الاختيار من القائمة بالاسم أو الرقم.",
+    },
+    launchKitServicesSelected: {
+        en: "Added: {services}.",
+        ar: "تمت الإضافة: {services}.",
+    },
+    reorderPickOrder: {
+        en: "Which order would you like to repeat?\n\n{orders}\n\nReply with its number.",
+        ar: "أي طلب تريد تكراره؟\n\n{orders}\n\nاكتب رقمه.",
+    },
+    reorderUnknownOrder: {
+        en: "I couldn't find that among your past orders.\n\n{orders}\n\nReply with its number, or its draft order id (e.g. #1234567).",
+        ar: "لم أجد ذلك ضمن طلباتك السابقة.\n\n{orders}\n\nاكتب رقمه، أو رقم مسودة الطلب (مثال: #1234567).",
+    },
+    reorderNoOrders: {
+        en: "You don't have any past orders to repeat yet. Type 'reset' to start a new project.",
+        ar: "لا توجد لديك طلبات سابقة لتكرارها بعد. اكتب 'إعادة' لبدء مشروع جديد.",
+    },
+    reorderNotFound: {
+        en: "That order is no longer available in our store. Please pick another one.",
+        ar: "هذا الطلب لم يعد متاحاً في متجرنا. يرجى اختيار طلب آخر.",
+    },
+    reorderLoadError: {
+        en: "I couldn't load that order right now. Please try again in a moment.",
+        ar: "تعذر تحميل هذا الطلب الآن. يرجى المحاولة بعد قليل.",
+    },
+    reorderLoaded: {
+        en: "Reordering **{package}** from order #{order}. Your package specs are carried over - just confirm the delivery details.",
+        ar: "إعادة طلب **{package}** من الطلب #{order}. تم نقل مواصفات الغلاف - فقط أكد تفاصيل التوصيل.",
+    },
+    sampleIntro: {
+        en: "Let's get you a sample before you commit to a full order. Samples are {price} SAR each, and you can request {remaining} more.\n\nWhich package would you like to try?",
+        ar: "لنرسل لك عينة قبل الالتزام بطلب كامل. سعر العينة {price} ريال، ويمكنك طلب {remaining} عينات أخرى.\n\nأي غلاف تود تجربته؟",
+    },
+    projectNotFound: {
+        en: "I couldn't find that project. Pick one from your projects, or start a new one.",
+        ar: "لم أجد هذا المشروع. اختر مشروعاً من مشاريعك، أو ابدأ مشروعاً جديداً.",
+    },
+    projectArchived: {
+        en: "That project is archived and can't be changed. Pick an active project, or start a new one.",
+        ar: "هذا المشروع مؤرشف ولا يمكن تعديله. اختر مشروعاً نشطاً، أو ابدأ مشروعاً جديداً.",
+    },
+    quoteNotReady: {
+        en: "Your project isn't ready for a quote yet - let's finish the remaining questions first.",
+        ar: "مشروعك غير جاهز لعرض السعر بعد - لنكمل الأسئلة المتبقية أولاً.",
+    },
+    sampleNotReady: {
+        en: "Pick a package and tell me where to send the sample first, then I'll create the sample order.",
+        ar: "اختر الغلاف وأخبرني أين أرسل العينة أولاً، ثم سأنشئ طلب العينة.",
+    },
+    sampleLimitReached: {
+        en: "You've already requested {limit} samples, which is the limit. Please contact us or place a full order to continue.",
+        ar: "لقد طلبت {limit} عينات بالفعل، وهذا هو الحد الأقصى. يرجى التواصل معنا أو إتمام طلب كامل للمتابعة.",
+    },
+    sampleNoCustomPackage: {
+        en: "Samples are only available for packages in our catalog. Which package would you like to try?",
+        ar: "العينات متاحة فقط للأغلفة الموجودة في الكتالوج. أي غلاف تود تجربته؟",
+    },
+    sampleCreated: {
+        en: "✅ **Sample Requested!**\n\nYour sample order is ready. Please review and complete it, and we'll ship the sample to your address.\n\nSend a new message to start your next project.",
+        ar: "✅ **تم طلب العينة!**\n\nطلب العينة جاهز. يرجى المراجعة وإتمامه، وسنشحن العينة إلى عنوانك.\n\nأرسل رسالة جديدة لبدء مشروعك التالي.",
+    },
+    flowNameDirectSales: {
+        en: "packaging order",
+        ar: "طلب تغليف",
+    },
+    flowNameLaunchKit: {
+        en: "launch kit services",
+        ar: "خدمات الإطلاق",
+    },
+    flowNameReorder: {
+        en: "reorder",
+        ar: "إعادة طلب",
+    },
+    flowNameSampleRequest: {
+        en: "sample request",
+        ar: "طلب عينة",
+    },
+    intentDetected: {
+        en: "Let's start your **{flow}**. (Not what you meant? Reply \"switch to\" followed by {others}.)",
+        ar: "لنبدأ **{flow}**. (ليس ما تقصده؟ اكتب \"انتقل إلى\" متبوعة بـ {others}.)",
+    },
+    flowSwitchConfirm: {
+        en: "Switching to **{flow}** clears your answers and package choice so far. Switch anyway?",
+        ar: "الانتقال إلى **{flow}** يمسح إجاباتك واختيارك للعبوة حتى الآن. هل تريد الانتقال؟",
+    },
+    flowSwitchYesOption: {
+        en: "Yes, switch",
+        ar: "نعم، انتقل",
+    },
+    flowSwitchNoOption: {
+        en: "No, stay here",
+        ar: "لا، ابقَ هنا",
+    },
+    intentSmallTalk: {
+        en: "Hello! I can help you order custom packaging, book launch kit services (photos, video, 3D renders), request a sample, or repeat a previous order. What would you like to do?",
+        ar: "أهلاً! يمكنني مساعدتك في طلب تغليف مخصص، أو حجز خدمات الإطلاق (تصوير، فيديو، تصميم ثلاثي الأبعاد)، أو طلب عينة، أو تكرار طلب سابق. ماذا تود أن تفعل؟",
+    },
+    intentSupportFollowUp: {
+        en: "Whenever you're ready, I can also help you order packaging, launch kit services, a sample, or a reorder.",
+        ar: "عندما تكون جاهزاً، يمكنني أيضاً مساعدتك في طلب تغليف أو خدمات الإطلاق أو عينة أو إعادة طلب.",
+    },
+    wentBack: {
+        en: "Okay, going back.",
+        ar: "حسناً، لنعد خطوة إلى الوراء.",
+    },
+    undone: {
+        en: "Undone.",
+        ar: "تم التراجع.",
+    },
+    nothingToUndo: {
+        en: "There's nothing to go back to yet.",
+        ar: "لا توجد خطوة سابقة للرجوع إليها بعد.",
+    },
+    previousAnswer: {
+        en: "{question}\n\nLast time: **{answer}**. Reply \"yes\" to keep it, or send a new answer.",
+        ar: "{question}\n\nفي المرة السابقة: **{answer}**. اكتب \"نعم\" للإبقاء عليه، أو أرسل إجابة جديدة.",
+    },
+    quoteCreated: {
+        en: "✅ **Project Brief Created!**\n\nI've attached all your specifications to the order. Please review and complete your purchase.\n\nSend a new message to start your next project.",
+        ar: "✅ **تم إنشاء ملخص المشروع!**\n\nأرفقت جميع مواصفاتك بالطلب. يرجى المراجعة وإتمام الشراء.\n\nأرسل رسالة جديدة لبدء مشروعك التالي.",
+    },
+    quoteRegenerated: {
+        en: "✅ **Draft Order Regenerated!**\n\nI've updated the order with your latest specifications. Please review and complete your purchase.",
+        ar: "✅ **تم تحديث مسودة الطلب!**\n\nحدّثت الطلب بأحدث مواصفاتك. يرجى المراجعة وإتمام الشراء.",
+    },
+    quoteConflict: {
+        en: "⚠️ This order request key was already used for a different quote. Please refresh and try again.",
+        ar: "⚠️ مفتاح هذا الطلب استُخدم من قبل لعرض سعر مختلف. يرجى تحديث الصفحة والمحاولة مرة أخرى.",
+    },
+    quoteError: {
+        en: "⚠️ I encountered an error while creating your quote. Please try again or contact support.",
+        ar: "⚠️ حدث خطأ أثناء إنشاء عرض السعر. يرجى المحاولة مرة أخرى أو التواصل مع الدعم.",
+    },
+    rephrase: {
+        en: "I'm having trouble processing that. Could you rephrase your request?",
+        ar: "أواجه صعوبة في فهم ذلك. هل يمكنك إعادة صياغة طلبك؟",
+    },
+    tooManyMessages: {
+        en: "Too many messages. Please wait a moment and try again.",
+        ar: "رسائل كثيرة جداً. يرجى الانتظار قليلاً والمحاولة مرة أخرى.",
+    },
+    variantUnclear: {
+        en: "I'm having trouble understanding. Please select an option from the list.",
+        ar: "أواجه صعوبة في الفهم. يرجى اختيار خيار من القائمة.",
+    },
+    streamError: {
+        en: "I'm having trouble answering right now. Please try again.",
+        ar: "أواجه صعوبة في الرد الآن. يرجى المحاولة مرة أخرى.",
+    },
+    // Typed answers (answers.ts)
+    invalidQuantity: {
+        en: "Please provide a valid quantity (e.g., 100, 500, 1000).",
+        ar: "يرجى إدخال كمية صحيحة (مثال: 100، 500، 1000).",
+    },
+    invalidDimensions: {
+        en: "Please give all three dimensions - Length x Width x Height (e.g., 20x15x10 cm).",
+        ar: "يرجى كتابة الأبعاد الثلاثة - الطول × العرض × الارتفاع (مثال: 20x15x10 سم).",
+    },
+    invalidWeight: {
+        en: "Please include the weight as a number (e.g., 250 g or 1.5 kg).",
+        ar: "يرجى كتابة الوزن بالأرقام (مثال: 250 جم أو 1.5 كجم).",
+    },
+    invalidBudget: {
+        en: "Please give a budget with numbers (e.g., 1-5 SAR per unit), or say it's flexible.",
+        ar: "يرجى كتابة الميزانية بالأرقام (مثال: 1-5 ريال للوحدة)، أو أخبرني أنها مرنة.",
+    },
+    invalidOption: {
+        en: "Please choose one of the options.",
+        ar: "يرجى اختيار أحد الخيارات.",
+    },
+    invalidAddress: {
+        en: "Please provide a delivery address, or at least the city.",
+        ar: "يرجى كتابة عنوان التوصيل، أو المدينة على الأقل.",
+    },
+    assumedFirstNumber: {
+        en: "I used the first number you mentioned",
+        ar: "استخدمت أول رقم ذكرته",
+    },
+    assumedWholeUnits: {
+        en: "quantities are whole units",
+        ar: "الكميات تكون بوحدات كاملة",
+    },
+    assumedCentimeters: {
+        en: "no unit was given, so I assumed centimeters",
+        ar: "لم تُذكر الوحدة، لذا افترضت أنها بالسنتيمتر",
+    },
+    assumedGrams: {
+        en: "no unit was given, so I assumed grams",
+        ar: "لم تُذكر الوحدة، لذا افترضت أنها بالجرام",
+    },
+    assumedKilograms: {
+        en: "no unit was given, so I assumed kilograms",
+        ar: "لم تُذكر الوحدة، لذا افترضت أنها بالكيلوجرام",
+    },
+    assumedFirstWeight: {
+        en: "I used the first weight you mentioned",
+        ar: "استخدمت أول وزن ذكرته",
+    },
+    assumedPerUnitBudget: {
+        en: "I read it as a per-unit budget",
+        ar: "فهمتها كميزانية للوحدة الواحدة",
+    },
+    assumedTotalBudget: {
+        en: "I read it as a total budget",
+        ar: "فهمتها كميزانية إجمالية",
+    },
+    unknownCity: {
+        en: "I couldn't recognize the city",
+        ar: "لم أتعرف على المدينة",
+    },
+    units: {
+        en: "units",
+        ar: "وحدة",
+    },
+    flexibleBudget: {
+        en: "Flexible budget",
+        ar: "ميزانية مرنة",
+    },
+} satisfies Record<string, Record<Locale, string>>;
+
+export type MessageKey = keyof typeof MESSAGES;
+
+/**
+ * Catalog message in the given language, with {placeholders} filled in
+ */
+export function t(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+    const template: string = MESSAGES[key][locale] || MESSAGES[key][DEFAULT_LOCALE];
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Language a message is written in, or null when it doesn't say (numbers, "20x15x10 cm", "ok")
+ */
+export function detectLocale(message: string): Locale | null {
+    const arabic = (message.match(ARABIC_LETTERS) || []).length;
+    const latin = (message.match(LATIN_LETTERS) || []).length;
+    if (arabic > 0 && arabic >= latin) return "ar";
+    // A few Latin letters are usually units or a brand name inside an answer, not a language switch
+    if (arabic === 0 && latin >= 8) return "en";
+    return null;
+}
+
+export function isSupportedLocale(value: unknown): value is Locale {
+    return typeof value === "string" && (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+/**
+ * Replace Arabic-Indic digits (٠-٩, ۰-۹) with ASCII digits
+ */
+export function normalizeDigits(text: string): string {
+    return text.replace(ARABIC_DIGITS, digit => String(digit.charCodeAt(0) % 16));
+}
+
+/**
+ * Options to show for a step in the given language (same shape as step.options)
+ */
+export function localizedOptions(step: CharterStep, locale: Locale): string[] | string[][] | null {
+    return step.translations?.[locale]?.options || step.options || null;
+}
+
+/**
+ * Map picks made in any language back to the step's canonical options, so stored answers
+ * (and the showIf conditions and pricing that read them) don't depend on the reply language
+ */
+export function canonicalizeAnswer(step: CharterStep, answer: string): string {
+    const text = normalizeDigits(answer).trim();
+    if (!step.options) {
+        return text;
+    }
+    return step.multiple ? splitPicks(step, text).join(", ") : (findOption(step, text) || text);
+}
+
+/**
+ * Split a multi-select answer into picks, canonical where they match an option in any language
+ * Options are matched whole before splitting on commas, so "Hero shot photography - 1,200 SAR" stays one pick
+ */
+export function splitPicks(step: CharterStep, answer: string): string[] {
+    const picks: Array<{ at: number; value: string }> = [];
+    let rest = answer;
+    const candidates = optionVariants(step).sort((a, b) => b.text.length - a.text.length);
+    for (const { text, canonical } of candidates) {
+        const at = rest.toLowerCase().indexOf(text.toLowerCase());
+        if (text && at >= 0) {
+            picks.push({ at, value: canonical });
+            rest = rest.slice(0, at) + ",".repeat(text.length) + rest.slice(at + text.length);
+        }
+    }
+    // Whatever is left between separators is a custom pick
+    for (const match of rest.matchAll(/[^,،]+/g)) {
+        if (match[0].trim()) {
+            picks.push({ at: match.index ?? 0, value: match[0].trim() });
+        }
+    }
+    return picks.sort((a, b) => a.at - b.at).map(pick => pick.value);
+}
+
+/**
+ * Canonical option a whole answer names (in any language), if any
+ */
+export function findOption(step: CharterStep, answer: string): string | undefined {
+    const needle = answer.trim().toLowerCase();
+    return optionVariants(step).find(({ text }) => text.toLowerCase() === needle)?.canonical;
+}
+
+function optionVariants(step: CharterStep): Array<{ text: string; canonical: string }> {
+    const canonical = ((step.options || []) as Array<string | string[]>).flat();
+    const variants = canonical.map(option => ({ text: option, canonical: option }));
+    for (const translation of Object.values(step.translations || {})) {
+        ((translation?.options || []) as Array<string | string[]>).flat().forEach((text, index) => {
+            if (canonical[index]) variants.push({ text, canonical: canonical[index] });
+        });
+    }
+    return variants;
+}
+
+/**
+ * Prompt rule asking the model to write customer-facing text in the customer's language
+ */
+export function languageRule(locale: Locale): string {
+    return locale === "ar"
+        ? "Write every customer-facing text field (reply, reason) in Arabic."
+        : "Write every customer-facing text field (reply, reason) in English.";
+}
@@ -0,0 +1,98 @@
+/**
+ * Idempotency Store
+ * Remembers the result of side-effecting calls (Shopify draft orders) so replays return the original result
+ */
+
+import { DraftOrderResult } from "./shopify";
+
+export const IDEMPOTENCY_HEADER_NAME = "Idempotency-Key";
+
+const KEY_PREFIX = "idempotency:";
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IdempotencyRecord {
+    fingerprint: string; // Hash of the request state the key was first used with
+    result: DraftOrderResult;
+    createdAt: number;
+}
+
+export type IdempotencyLookup =
+    | { status: "miss" }
+    | { status: "hit"; result: DraftOrderResult }
+    | { status: "conflict" }; // Key reused with a different request
+
+export class IdempotencyConflictError extends Error {
+    constructor(key: string) {
+        super(`Idempotency-Key "${key}" was already used for a different order`);
+        this.name = "IdempotencyConflictError";
+    }
+}
+
+export class IdempotencyStore {
+    private storage: DurableObjectStorage;
+    private ttlMs: number;
+
+    constructor(storage: DurableObjectStorage, ttlMs: number = DEFAULT_TTL_MS) {
+        this.storage = storage;
+        this.ttlMs = ttlMs;
+    }
+
+    async lookup(scope: string, key: string, fingerprint: string, now: number = Date.now()): Promise<IdempotencyLookup> {
+        const record = await this.storage.get<IdempotencyRecord>(recordKey(scope, key));
+        if (!record || now - record.createdAt > this.ttlMs) {
+            return { status: "miss" };
+        }
+        if (record.fingerprint !== fingerprint) {
+            return { status: "conflict" };
+        }
+        return { status: "hit", result: record.result };
+    }
+
+    async save(scope: string, key: string, fingerprint: string, result: DraftOrderResult): Promise<void> {
+        const record: IdempotencyRecord = { fingerprint, result, createdAt: Date.now() };
+        await this.storage.put(recordKey(scope, key), record);
+    }
+
+    /**
+     * Delete expired records (called from the session cleanup alarm)
+     */
+    async purgeExpired(now: number = Date.now()): Promise<number> {
+        const records = await this.storage.list<IdempotencyRecord>({ prefix: KEY_PREFIX });
+        const expired = Array.from(records.entries())
+            .filter(([, record]) => now - record.createdAt > this.ttlMs)
+            .map(([key]) => key);
+
+        // delete() accepts at most 128 keys per call
+        for (let i = 0; i < expired.length; i += 128) {
+            await this.storage.delete(expired.slice(i, i + 128));
+        }
+        return expired.length;
+    }
+}
+
+/**
+ * Stable SHA-256 hex digest of a JSON-serializable value (object keys sorted)
+ * Used both as the request fingerprint and as the derived key when the client sends none
+ */
+export async function hashState(value: unknown): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(stableStringify(value)));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
+
+function recordKey(scope: string, key: string): string {
+    return `${KEY_PREFIX}${scope}:${key}`;
+}
@@ -2,8 +2,24 @@ import { PackagehaSession } from "./session";
 import { Env } from "./types";
 import { SovereignSwitch } from "./sovereign-switch";
 import { verifySallaToken, getSallaProducts, getSallaProduct } from "./salla";
+import {
+  issueSessionToken,
+  verifySessionToken,
+  getSessionTokenFromRequest,
+  resolveSessionIdentity,
+  buildSessionCookie,
+  SessionIdentity
+} from "./auth";
+import { getCharterDocument } from "./charter-store";
+import {
+  RateLimiter,
+  RATE_LIMIT_KEY_HEADER,
+  getRateLimitKey,
+  consumeRateLimit,
+  rateLimitResponse
+} from "./rate-limiter";
 
-export { PackagehaSession };
+export { PackagehaSession, RateLimiter };
 
 /**
  * Main Worker Entry Point
@@ -18,8 +34,8 @@ export default {
       return new Response(null, { 
         headers: {
           "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, Authorization",
+          "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, OPTIONS",
+          "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Session-Token, Idempotency-Key",
           "Access-Control-Max-Age": "86400",
         } 
       });
@@ -42,33 +58,81 @@ export default {
  * All API endpoints are prefixed with /api/ to avoid conflicts with static assets
  */
 async function handleApiRequest(request: Request, env: Env, url: URL): Promise<Response> {
+  // Session endpoint - issues (or refreshes) a signed session token
+  if (url.pathname === "/api/session" && request.method === "POST") {
+    console.log("[API] POST /api/session");
+    try {
+      // Refresh an existing valid token instead of starting a new conversation
+      const existingToken = getSessionTokenFromRequest(request);
+      const existing = existingToken ? await verifySessionToken(env, existingToken) : null;
+      
+      // Minting new sessions is limited per IP so fresh tokens can't be used to dodge the AI budgets
+      if (!existing) {
+        const limit = await consumeRateLimit(env, getRateLimitKey(env, request), "session");
+        if (!limit.allowed) {
+          return rateLimitResponse(limit, "session");
+        }
+      }
+      
+      const session = await issueSessionToken(env, existing?.sid);
+
+      const response = jsonResponse({
+        token: session.token,
+        sessionId: session.sessionId,
+        expiresAt: session.expiresAt
+      });
+      response.headers.set("Set-Cookie", buildSessionCookie(session.token, session.expiresAt));
+      return response;
+    } catch (error: any) {
+      console.error("[API] Session error:", error);
+      return jsonResponse({ error: error.message }, 500);
+    }
+  }
+
   // Main chat endpoint - routes to Durable Object session
   if (url.pathname === "/api/chat" && request.method === "POST") {
     console.log("[API] POST /api/chat");
-    
-      const cfIp = request.headers.get("CF-Connecting-IP");
-      const forwardedFor = request.headers.get("X-Forwarded-For");
-      let ip = "anonymous";
-      if (cfIp) {
-        ip = cfIp.trim();
-      } else if (forwardedFor) {
-        ip = forwardedFor.split(",")[0].trim();
-      }
-      
-      const sessionId = env.PackagehaSession.idFromName(ip);
-      const session = env.PackagehaSession.get(sessionId);
-      
+    return handleSessionRequest(request, env);
+  }
+  
+  // Streaming conversational reply - Server-Sent Events
+  if (url.pathname === "/api/chat/stream" && request.method === "POST") {
+    console.log("[API] POST /api/chat/stream");
+    return handleSessionRequest(request, env);
+  }
+  
+  // Streaming chat endpoint - WebSocket upgrade forwarded to the Durable Object session
+  if (url.pathname === "/api/chat/ws" && request.method === "GET") {
+    console.log("[API] GET /api/chat/ws");
+    return handleSessionRequest(request, env, true);
+  }
+  
+  // Chat history endpoint - returns the project's conversation transcript
+  if (url.pathname === "/api/chat/history" && request.method === "GET") {
+    console.log("[API] GET /api/chat/history");
+    return handleSessionRequest(request, env);
+  }
+  
+  // Project endpoints - list/create/rename/switch/archive projects in the caller's session
+  if (url.pathname === "/api/projects" || url.pathname.startsWith("/api/projects/")) {
+    console.log(`[API] ${request.method} ${url.pathname}`);
+    return handleSessionRequest(request, env);
+  }
+  
+  // Project API - typed answers, package selection, navigation and quotes for the active project
+  if (url.pathname === "/api/project" || url.pathname.startsWith("/api/project/")) {
+    console.log(`[API] ${request.method} ${url.pathname}`);
+    return handleSessionRequest(request, env);
+  }
+  
+  // Charter endpoint - returns a charter document (current version by default) for sales ops to edit and publish
+  if (url.pathname === "/api/charter" && request.method === "GET") {
+    console.log("[API] GET /api/charter");
     try {
-      const response = await session.fetch(request);
-      const headers = new Headers(response.headers);
-      headers.set("Access-Control-Allow-Origin", "*");
-      return new Response(response.body, {
-        status: response.status,
-        statusText: response.statusText,
-        headers: headers,
-      });
+      const result = await getCharterDocument(env, url.searchParams.get("version") || undefined);
+      return jsonResponse(result);
     } catch (error: any) {
-      console.error("[API] Error:", error);
+      console.error("[API] Charter error:", error);
       return jsonResponse({ error: error.message }, 500);
     }
   }
@@ -78,6 +142,12 @@ async function handleApiRequest(request: Request, env: Env, url: URL): Promise<R
   // The enhanced description can be used with DALL-E, Stable Diffusion, or other image generation APIs
   if (url.pathname === "/api/generate-image-prompt" && request.method === "POST") {
     console.log("[API] POST /api/generate-image-prompt");
+    const identity = await resolveSessionIdentity(request, env);
+    const limit = await consumeRateLimit(env, getRateLimitKey(env, request, identity), "image");
+    if (!limit.allowed) {
+      return rateLimitResponse(limit, "image");
+    }
+    
     try {
       const body = await request.json() as { prompt: string; productImageUrl?: string; packageImageUrl?: string };
       const sovereignSwitch = new SovereignSwitch(env);
@@ -369,33 +439,10 @@ async function handleApiRequest(request: Request, env: Env, url: URL): Promise<R
     }
   }
   
-  // Create draft order endpoint
+  // Create draft order endpoint - handled by the session so retries are deduplicated
   if (url.pathname === "/api/create-draft-order" && request.method === "POST") {
-    try {
-      const body = await request.json() as { variantId: number; quantity: number; note: string };
-      
-      if (!body.variantId || !body.quantity) {
-        return jsonResponse({ error: "variantId and quantity are required" }, 400);
-      }
-      
-      const { createDraftOrder } = await import("./shopify");
-      const result = await createDraftOrder(
-        env.SHOP_URL,
-        env.SHOPIFY_ACCESS_TOKEN,
-        body.variantId,
-        body.quantity,
-        body.note || ""
-      );
-      
-      return jsonResponse({
-        draftOrderId: result.draftOrderId,
-        adminUrl: result.adminUrl,
-        invoiceUrl: result.invoiceUrl
-      });
-    } catch (error: any) {
-      console.error("[API] Create draft order error:", error);
-      return jsonResponse({ error: error.message }, 500);
-    }
+    console.log("[API] POST /api/create-draft-order");
+    return handleSessionRequest(request, env);
   }
   
   // Salla app page redirect
@@ -430,15 +477,7 @@ async function handleApiRequest(request: Request, env: Env, url: URL): Promise<R
       const cacheId = env.PackagehaSession.idFromName("product_cache");
       const cacheSession = env.PackagehaSession.get(cacheId);
       
-      // Make a dummy chat request that will trigger product fetching
-      const warmupRequest = new Request(request.url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          message: "_warmup_cache_",
-          reset: false 
-        })
-      });
+      const warmupRequest = new Request(request.url, { method: "POST" });
       
       // Fire and forget - don't wait for response
       cacheSession.fetch(warmupRequest).catch(err => {
@@ -463,6 +502,54 @@ async function handleApiRequest(request: Request, env: Env, url: URL): Promise<R
   return jsonResponse({ error: "API endpoint not found" }, 404);
 }
 
+/**
+ * Resolve the caller's session identity and forward the request to their Durable Object
+ */
+async function handleSessionRequest(request: Request, env: Env, allowQueryToken: boolean = false): Promise<Response> {
+  const identity = await resolveSessionIdentity(request, env, allowQueryToken);
+  if (!identity) {
+    return jsonResponse({ error: "Missing or invalid session token. Call POST /api/session first." }, 401);
+  }
+  
+  try {
+    return await forwardToSession(request, env, identity);
+  } catch (error: any) {
+    console.error("[API] Error:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+}
+
+/**
+ * Forward a request to the caller's PackagehaSession Durable Object
+ */
+async function forwardToSession(request: Request, env: Env, identity: SessionIdentity): Promise<Response> {
+  const sessionId = env.PackagehaSession.idFromName(identity.objectName);
+  const session = env.PackagehaSession.get(sessionId);
+  
+  // Tell the session which client key to charge for chat turns and searches (omitted when allowlisted)
+  const headers = new Headers(request.headers);
+  headers.delete(RATE_LIMIT_KEY_HEADER);
+  const rateLimitKey = getRateLimitKey(env, request, identity);
+  if (rateLimitKey) {
+    headers.set(RATE_LIMIT_KEY_HEADER, rateLimitKey);
+  }
+  
+  const response = await session.fetch(new Request(request, { headers }));
+  
+  // WebSocket upgrades (101) must be passed through untouched
+  if (response.webSocket) {
+    return response;
+  }
+  
+  const responseHeaders = new Headers(response.headers);
+  responseHeaders.set("Access-Control-Allow-Origin", "*");
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  });
+}
+
 /**
  * Helper function for JSON responses with CORS
  */
@@ -0,0 +1,157 @@
+/**
+ * Intent Detection
+ * Classifies a customer's opening message so the session can pick the flow without an explicit `flow`
+ */
+
+import { AgentFlow, DetectedIntent, Intent, Locale } from "./types";
+import { SovereignSwitch } from "./sovereign-switch";
+import { MessageKey, SUPPORTED_LOCALES, t } from "./i18n";
+import { isConfirmation } from "./answers";
+
+const FLOWS: AgentFlow[] = ["direct_sales", "launch_kit", "reorder", "sample_request"];
+const INTENTS: Intent[] = [...FLOWS, "support", "small_talk"];
+
+// Below this the model's answer loses to a keyword match
+const MIN_LLM_CONFIDENCE = 0.5;
+
+// Checked in this order, so on a tie "order it again" is a reorder, not a new order
+const KEYWORDS: Array<[Intent, string[]]> = [
+    ["reorder", ["reorder", "re-order", "order again", "same order", "previous order", "last order", "repeat my order", "إعادة الطلب", "اعادة الطلب", "نفس الطلب", "الطلب السابق"]],
+    ["sample_request", ["sample", "samples", "عينة", "عينات"]],
+    ["launch_kit", ["launch kit", "photography", "photos", "photo shoot", "video", "3d render", "render", "brand styling", "تصوير", "فيديو", "خدمات الإطلاق", "هوية العلامة"]],
+    ["support", ["track", "tracking", "where is my", "refund", "return", "cancel", "invoice", "payment", "delivery time", "how long", "contact", "تتبع", "شحنتي", "استرجاع", "إلغاء", "فاتورة", "الدفع"]],
+    ["direct_sales", ["box", "boxes", "packaging", "package", "mailer", "bag", "bags", "pouch", "label", "labels", "quote", "علب", "علبة", "تغليف", "كرتون", "أكياس", "ملصقات", "عرض سعر"]],
+    ["small_talk", ["hi", "hello", "hey", "thanks", "thank you", "good morning", "good evening", "how are you", "مرحبا", "السلام عليكم", "أهلا", "اهلا", "شكرا", "صباح الخير", "مساء الخير"]],
+];
+
+const FLOW_NAMES: Record<AgentFlow, MessageKey> = {
+    direct_sales: "flowNameDirectSales",
+    launch_kit: "flowNameLaunchKit",
+    reorder: "flowNameReorder",
+    sample_request: "flowNameSampleRequest",
+};
+
+const SWITCH_DECLINES = ["no", "cancel", "stay", "لا", "إلغاء", "الغاء"];
+
+const SWITCH_PREFIX = /^(?:switch to|change to|انتقل إلى|انتقل الى|حول إلى|حول الى)\s+(?:an?\s+|the\s+)?(.+)$/i;
+
+const INTENT_PROMPT = `You route messages for a custom packaging store's sales assistant.
+Classify the customer's opening message as one intent:
+- direct_sales: wants packaging (boxes, bags, labels...) or a quote for it
+- launch_kit: wants only studio services (product photography, video, 3D renders, design or brand consultation), no packaging
+- reorder: wants to repeat a previous order
+- sample_request: wants a sample of a package before ordering in bulk
+- support: asks about an existing order, delivery, payment or returns, or how the service works
+- small_talk: greeting, thanks or chit-chat with no request
+
+Return valid JSON only: {"intent": "<intent>", "confidence": <0-1>}`;
+
+/**
+ * Classify with the active model, falling back to keywords when it fails or isn't sure
+ */
+export async function classifyIntent(message: string, sovereignSwitch: SovereignSwitch): Promise<DetectedIntent> {
+    const keywords = detectIntentByKeywords(message);
+    try {
+        const response = await sovereignSwitch.callAI(`Message: "${message}"`, INTENT_PROMPT);
+        const detected = parseIntentResponse(response);
+        if (!detected) {
+            console.log("[classifyIntent] Unusable model response, using keywords:", response);
+            return keywords;
+        }
+        if (detected.confidence < MIN_LLM_CONFIDENCE && keywords.confidence > 0) {
+            return keywords;
+        }
+        return detected;
+    } catch (error: any) {
+        console.error("[classifyIntent] Error:", error);
+        return keywords;
+    }
+}
+
+export function parseIntentResponse(response: string): DetectedIntent | null {
+    const json = response.match(/\{[\s\S]*\}/);
+    if (!json) return null;
+    try {
+        const parsed = JSON.parse(json[0]);
+        if (!INTENTS.includes(parsed.intent)) return null;
+        const confidence = typeof parsed.confidence === "number" ? Math.min(Math.max(parsed.confidence, 0), 1) : MIN_LLM_CONFIDENCE;
+        return { intent: parsed.intent, confidence, source: "llm" };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Keyword fallback - the intent with the most keyword hits; direct sales (confidence 0) when nothing matches
+ */
+export function detectIntentByKeywords(message: string): DetectedIntent {
+    const text = message.toLowerCase();
+    let best: DetectedIntent = { intent: "direct_sales", confidence: 0, source: "keywords" };
+    let bestHits = 0;
+    for (const [intent, keywords] of KEYWORDS) {
+        const hits = keywords.filter(keyword => containsKeyword(text, keyword)).length;
+        if (hits > bestHits) {
+            bestHits = hits;
+            best = { intent, confidence: Math.min(4 + hits * 2, 9) / 10, source: "keywords" };
+        }
+    }
+    return best;
+}
+
+/**
+ * Flow a customer asked to switch to by name ("switch to launch kit services", "switch to sample_request"), if any
+ * Only flow names count - "change to a bigger box" is an answer, not a switch
+ */
+export function parseFlowSwitch(message: string): AgentFlow | null {
+    const match = message.trim().replace(/[.!]+$/, "").match(SWITCH_PREFIX);
+    if (!match) return null;
+    const target = match[1].toLowerCase().trim();
+
+    const named = FLOWS.find(flow =>
+        flow === target.replace(/[\s-]+/g, "_") ||
+        SUPPORTED_LOCALES.some(locale => t(locale, FLOW_NAMES[flow]).toLowerCase() === target)
+    );
+    return named || null;
+}
+
+/**
+ * The two answers to a flow switch confirmation: [switch, stay]
+ */
+export function flowSwitchOptions(locale: Locale): string[] {
+    return [t(locale, "flowSwitchYesOption"), t(locale, "flowSwitchNoOption")];
+}
+
+/**
+ * Reply to "switching clears your answers - switch anyway?": true to switch, false to stay,
+ * null when it is neither (an answer to the open question - the switch is dropped)
+ */
+export function parseFlowSwitchConfirmation(message: string): boolean | null {
+    const reply = message.toLowerCase().trim().replace(/[.!]+$/, "");
+    const options = SUPPORTED_LOCALES.map(locale => flowSwitchOptions(locale).map(option => option.toLowerCase()));
+    if (options.some(([yes]) => reply === yes) || isConfirmation(reply)) return true;
+    if (options.some(([, no]) => reply === no) || SWITCH_DECLINES.includes(reply)) return false;
+    return null;
+}
+
+export function isFlowIntent(intent: Intent): intent is AgentFlow {
+    return (FLOWS as Intent[]).includes(intent);
+}
+
+export function flowName(flow: AgentFlow, locale: Locale): string {
+    return t(locale, FLOW_NAMES[flow]);
+}
+
+/**
+ * The other flows, for the "not what you meant?" hint
+ */
+export function otherFlowNames(flow: AgentFlow, locale: Locale): string {
+    return FLOWS.filter(other => other !== flow).map(other => `"${flowName(other, locale)}"`).join(", ");
+}
+
+function containsKeyword(text: string, keyword: string): boolean {
+    // Latin keywords match whole words ("hi" is not in "shipping"); Arabic ones match inside words (prefixes like "ال")
+    if (/^[a-z0-9\s-]+$/.test(keyword)) {
+        return new RegExp(`\\b${keyword}\\b`).test(text);
+    }
+    return text.includes(keyword);
+}
@@ -0,0 +1,161 @@
+/**
+ * Launch Kit
+ * Studio services catalog - prices for the launch_kit step of direct sales and the services-only launch_kit flow
+ */
+
+import { CustomLineItem, LaunchKitService, Locale } from "./types";
+import { normalizeDigits } from "./i18n";
+
+// Saudi market prices in SAR
+export const LAUNCH_KIT_SERVICES: LaunchKitService[] = [
+    {
+        id: "hero_shot",
+        name: "Hero shot photography",
+        description: "Studio hero images of your product in its packaging",
+        price: 1200,
+        translations: { ar: { name: "تصوير رئيسي للمنتج", description: "صور احترافية لمنتجك داخل غلافه" } },
+    },
+    {
+        id: "unboxing_video",
+        name: "Stop-motion unboxing video",
+        description: "Short stop-motion video of the unboxing experience",
+        price: 1800,
+        translations: { ar: { name: "فيديو فتح العلبة بتقنية ستوب موشن", description: "فيديو قصير يعرض تجربة فتح العلبة" } },
+    },
+    {
+        id: "ecommerce_photos",
+        name: "E-commerce product photos",
+        description: "White-background product photos ready for your store",
+        price: 900,
+        translations: { ar: { name: "صور منتجات للمتجر الإلكتروني", description: "صور بخلفية بيضاء جاهزة لمتجرك" } },
+    },
+    {
+        id: "render_3d",
+        name: "3D render with packaging for website",
+        description: "3D render of your product and package for web use",
+        price: 1500,
+        translations: { ar: { name: "تصميم ثلاثي الأبعاد مع الغلاف للموقع", description: "تصميم ثلاثي الأبعاد لمنتجك وغلافه للاستخدام على الويب" } },
+    },
+    {
+        id: "package_design",
+        name: "Package design consultation",
+        description: "Session with a designer on your packaging artwork",
+        price: 600,
+        translations: { ar: { name: "استشارة تصميم الغلاف", description: "جلسة مع مصمم حول تصميم غلافك" } },
+    },
+    {
+        id: "brand_styling",
+        name: "Brand styling consultation",
+        description: "Guidance on colors, typography and brand presentation",
+        price: 700,
+        translations: { ar: { name: "استشارة هوية العلامة التجارية", description: "توجيه حول الألوان والخطوط وعرض العلامة" } },
+    },
+];
+
+export const NO_SERVICES_OPTION = "None - skip launch services";
+export const NO_SERVICES_OPTION_AR = "لا شيء - تخطي خدمات الإطلاق";
+
+export interface ServicePick {
+    service: LaunchKitService;
+    quantity: number;
+}
+
+/**
+ * Charter option text for a service, e.g. "Hero shot photography - 1,200 SAR"
+ * Arabic prices are written without a thousands comma so option lists can still be split on commas
+ */
+export function serviceOption(service: LaunchKitService, locale: Locale = "en"): string {
+    if (locale === "ar") {
+        return `${serviceName(service, locale)} - ${service.price} ريال`;
+    }
+    return `${service.name} - ${service.price.toLocaleString("en-US")} SAR`;
+}
+
+export function serviceName(service: LaunchKitService, locale: Locale = "en"): string {
+    return service.translations?.[locale]?.name || service.name;
+}
+
+/**
+ * Catalog entry for a pick: service id, name (any language), option text, or its 1-based number in the list
+ */
+export function findService(pick: string): LaunchKitService | undefined {
+    const text = normalizeDigits(pick).trim();
+    if (/^\d+$/.test(text)) {
+        return LAUNCH_KIT_SERVICES[parseInt(text) - 1];
+    }
+
+    // Option text carries the price after " - "
+    const name = text.split(/\s+-\s+/)[0].trim().toLowerCase();
+    return LAUNCH_KIT_SERVICES.find(service =>
+        service.id === name ||
+        service.name.toLowerCase() === name ||
+        Object.values(service.translations || {}).some(translation => translation?.name.toLowerCase() === name)
+    );
+}
+
+/**
+ * Parse a free-text service selection with optional quantities ("1, 3 x2", "2 x E-commerce product photos")
+ * Returns the picks plus anything that didn't match a service
+ */
+export function parseServiceSelection(message: string): { picks: ServicePick[]; unknown: string[] } {
+    // Drop prices first so "1,200 SAR" isn't split on its comma
+    const text = normalizeDigits(message).replace(/\s+-\s+[\d,.]+\s*(?:SAR|ريال)/gi, "");
+    const picks: ServicePick[] = [];
+    const unknown: string[] = [];
+
+    for (const part of text.split(/[,،\n]+/).map(part => part.trim()).filter(Boolean)) {
+        const match = part.match(/^(.+?)\s*[x×]\s*(\d+)$/i) || part.match(/^(\d+)\s*[x×]\s+(.+)$/i);
+        let name = part;
+        let quantity = 1;
+        if (match) {
+            const [, first, second] = match;
+            [name, quantity] = /^\d+$/.test(second) ? [first, parseInt(second)] : [second, parseInt(first)];
+        }
+
+        const service = findService(name);
+        if (!service || quantity < 1) {
+            unknown.push(part);
+            continue;
+        }
+        const existing = picks.find(pick => pick.service.id === service.id);
+        if (existing) {
+            existing.quantity += quantity;
+        } else {
+            picks.push({ service, quantity });
+        }
+    }
+    return { picks, unknown };
+}
+
+/**
+ * Draft order line items for the picked services (option texts from the charter step)
+ * Quantities default to 1; unknown picks and "None" are left out
+ */
+export function serviceLineItems(picks: string[], quantities: Record<string, number> = {}): CustomLineItem[] {
+    const items: CustomLineItem[] = [];
+    for (const pick of picks) {
+        const service = findService(pick);
+        if (!service) {
+            if (pick !== NO_SERVICES_OPTION) {
+                console.warn("[serviceLineItems] Unknown service, not priced:", pick);
+            }
+            continue;
+        }
+        items.push({
+            title: service.name,
+            price: service.price.toFixed(2),
+            quantity: quantities[service.id] || 1,
+        });
+    }
+    return items;
+}
+
+/**
+ * Numbered catalog for the services-only flow
+ */
+export function formatServiceCatalog(locale: Locale): string {
+    return LAUNCH_KIT_SERVICES.map((service, index) => {
+        const description = service.translations?.[locale]?.description || service.description;
+        return `${index + 1}. **${serviceOption(service, locale)}**\n   ${description}`;
+    }).join("\n");
+}
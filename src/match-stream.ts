@@ -0,0 +1,72 @@
+/**
+ * Match Stream
+ * Reads package matches out of the model's JSON reply while it is still arriving, so discovery can send
+ * each match to streaming clients as soon as the model has scored it
+ */
+
+import { AIDecision } from "./types";
+
+export type StreamedMatch = NonNullable<AIDecision["matches"]>[number];
+
+const MATCHES_ARRAY = /"matches"\s*:\s*\[/;
+
+/**
+ * Push the reply chunk by chunk - each push returns the match objects that chunk completed
+ * Only the "matches" array is read; the complete reply is still parsed as a whole once it has arrived
+ */
+export class MatchStreamParser {
+    private text = "";
+    private position = -1; // Next character to scan, -1 until the matches array has started
+    private depth = 0; // Braces open inside the array
+    private objectStart = 0;
+    private inString = false;
+    private escaped = false;
+    private finished = false;
+
+    push(chunk: string): StreamedMatch[] {
+        this.text += chunk;
+        const matches: StreamedMatch[] = [];
+        if (this.finished) return matches;
+
+        if (this.position < 0) {
+            const found = MATCHES_ARRAY.exec(this.text);
+            if (!found) return matches;
+            this.position = found.index + found[0].length;
+        }
+
+        for (; this.position < this.text.length; this.position++) {
+            const char = this.text[this.position];
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === "\\") {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+            } else if (char === '"') {
+                this.inString = true;
+            } else if (char === "{") {
+                if (this.depth++ === 0) this.objectStart = this.position;
+            } else if (char === "}" && this.depth > 0) {
+                if (--this.depth === 0) {
+                    const match = parseMatch(this.text.slice(this.objectStart, this.position + 1));
+                    if (match) matches.push(match);
+                }
+            } else if (char === "]" && this.depth === 0) {
+                this.finished = true;
+                break;
+            }
+        }
+        return matches;
+    }
+}
+
+function parseMatch(json: string): StreamedMatch | null {
+    try {
+        const match = JSON.parse(json);
+        return typeof match?.id === "number" ? match : null;
+    } catch {
+        return null; // A malformed entry is left to the full parse
+    }
+}
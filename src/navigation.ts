@@ -0,0 +1,94 @@
+/**
+ * Navigation
+ * Back/undo history - the consultation state before every turn that changed it
+ */
+
+import { Memory, NavigationEntry } from "./types";
+
+export type NavigationCommand = "back" | "undo";
+
+const MAX_HISTORY = 30;
+const MAX_HISTORY_BYTES = 64 * 1024; // Memory is one storage value (128 KiB limit), and entries can carry long match lists
+
+// Entry fields that may be absent - cleared before restoring, so e.g. a package picked since is dropped
+const OPTIONAL_FIELDS = [
+    "answers", "packageId", "packageName", "variants", "fitVariantId", "selectedVariantId", "selectedVariantName",
+    "pendingMatches", "serviceQuantities", "editing", "pendingRediscovery", "quoteOutdated",
+] as const;
+
+const COMMANDS: Record<NavigationCommand, string[]> = {
+    back: ["back", "go back", "previous question", "رجوع", "ارجع", "السابق"],
+    undo: ["undo", "تراجع"],
+};
+
+/**
+ * "back" / "undo" typed as a message (whole message only, so answers that mention going back aren't commands)
+ */
+export function parseNavigationCommand(message: string): NavigationCommand | null {
+    const normalized = message.toLowerCase().trim().replace(/[.!]+$/, "");
+    if (COMMANDS.back.includes(normalized)) return "back";
+    if (COMMANDS.undo.includes(normalized)) return "undo";
+    return null;
+}
+
+export function captureNavigation(memory: Memory): NavigationEntry {
+    // Deep copy - the turn goes on to mutate clipboard and answers in place
+    return JSON.parse(JSON.stringify({
+        flow: memory.flow,
+        step: memory.step,
+        questionIndex: memory.questionIndex,
+        clipboard: memory.clipboard,
+        answers: memory.answers,
+        packageId: memory.packageId,
+        packageName: memory.packageName,
+        variants: memory.variants,
+        fitVariantId: memory.fitVariantId,
+        selectedVariantId: memory.selectedVariantId,
+        selectedVariantName: memory.selectedVariantName,
+        pendingMatches: memory.pendingMatches,
+        serviceQuantities: memory.serviceQuantities,
+        editing: memory.editing,
+        pendingRediscovery: memory.pendingRediscovery,
+        quoteOutdated: memory.quoteOutdated,
+    }));
+}
+
+/**
+ * Push the state from before the turn, if the turn changed anything (a rejected answer leaves no entry)
+ */
+export function recordNavigation(memory: Memory, before: NavigationEntry): void {
+    if (JSON.stringify(before) === JSON.stringify(captureNavigation(memory))) {
+        return;
+    }
+    const history = [...(memory.history || []), before].slice(-MAX_HISTORY);
+    while (history.length > 1 && JSON.stringify(history).length > MAX_HISTORY_BYTES) {
+        history.shift();
+    }
+    memory.history = history;
+}
+
+/**
+ * Restore an earlier state; false when there is nothing to go back to
+ * "undo" reverts the last change. "back" also skips changes made without moving on (edits, a new search),
+ * so it lands on the previous question - with every change since then reverted
+ */
+export function navigate(memory: Memory, command: NavigationCommand): boolean {
+    const history = [...(memory.history || [])];
+    let entry = history.pop();
+    if (command === "back") {
+        while (entry && history.length > 0 && entry.step === memory.step && entry.questionIndex === memory.questionIndex) {
+            entry = history.pop();
+        }
+    }
+    if (!entry) {
+        return false;
+    }
+
+    for (const key of OPTIONAL_FIELDS) {
+        delete memory[key];
+    }
+    Object.assign(memory, entry);
+    delete memory.pendingAnswer; // An unconfirmed answer belongs to the state being left
+    memory.history = history;
+    return true;
+}
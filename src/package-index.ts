@@ -0,0 +1,289 @@
+/**
+ * Package Index
+ * Inner dimensions, max load and protection level of every catalog package variant, for deterministic checks before scoring
+ */
+
+import { ShopifyProduct, PackagingMetafields } from "./shopify";
+import { parseAnswerAs } from "./answers";
+import { TypedAnswer } from "./types";
+
+export type Dimensions = Extract<TypedAnswer, { type: "dimensions" }>["cm"]; // cm, largest side first
+
+// Metafields on a variant (or, for every variant, its product), e.g. packaging.inner_dimensions = "30x20x10 cm"
+export const PACKAGING_NAMESPACE = "packaging";
+const METAFIELD_KEYS = { dimensions: "inner_dimensions", maxLoad: "max_load", protection: "protection" };
+
+// KV key of the enrichment table in PACKAGE_ENRICHMENT - fills in what the metafields don't say
+const ENRICHMENT_KEY = "packages";
+
+const DEFAULT_PADDING_CM = 1; // Clearance needed on each axis (cushioning, insert)
+const NEAR_LOAD_LIMIT = 0.8; // Share of the max load above which a package is penalized
+const LOAD_PENALTY = 0.1;
+const PROTECTION_PENALTY = 0.15;
+
+// Weakest first: "cushioned" packages have room for foam, pulp or bubble wrap inserts
+export const PROTECTION_LEVELS = ["standard", "padded", "cushioned"] as const;
+export type ProtectionLevel = typeof PROTECTION_LEVELS[number];
+
+export interface IndexedVariant {
+    id: number;
+    title: string;
+    dimensions: Dimensions | null;
+    source: "metafield" | "enrichment" | "option" | null; // Where the dimensions were read from
+    maxLoadGrams?: number | null; // Absent in indexes cached before loads were indexed
+    protection?: ProtectionLevel | null;
+}
+
+export interface PackageIndexEntry {
+    packageId: number;
+    variants: IndexedVariant[];
+    description?: string; // From the enrichment table - what the package is for, used in semantic search
+}
+
+export type PackageIndex = Record<number, PackageIndexEntry>; // By package (product) id
+
+/**
+ * Enrichment table rows, by product id: { "7890123": { "maxLoad": "5 kg", "protection": "cushioned", "description": "Rigid gift box for perfume" } }
+ */
+export type PackageEnrichment = Record<string, { innerDimensions?: string; maxLoad?: string; protection?: string; description?: string }>;
+
+/**
+ * What the product needs from a package - each part is null when its answer isn't known
+ */
+export interface PackageNeeds {
+    dimensions: Dimensions | null;
+    paddingCm: number;
+    weightGrams: number | null;
+    protection: ProtectionNeed | null;
+}
+
+export interface ProtectionNeed {
+    level: ProtectionLevel;
+    required: boolean; // Weaker packages are dropped, not just penalized
+}
+
+export type ConstraintFailure = "too_small" | "too_heavy" | "not_protective";
+
+export type PackageCheck =
+    | { status: "excluded"; failures: ConstraintFailure[] } // No variant meets the product's needs
+    | {
+        status: "candidate";
+        variantId: number | null; // Smallest variant meeting every known need
+        variantTitle: string | null;
+        fit: "ok" | "unknown" | null; // null = product dimensions not given
+        marginCm: number | null;
+        load: "ok" | "near_limit" | "unknown" | null; // null = product weight not given
+        maxLoadGrams: number | null;
+        protection: "ok" | "below_preferred" | "unknown" | null; // null = no protection needed
+        protectionLevel: ProtectionLevel | null;
+        penalty: number; // Taken off the match's combinedScore
+    };
+
+/**
+ * Index the catalog: a variant's metafield wins over its product's, then the enrichment table,
+ * then (for sizes only) a size in the variant options ("Large / 30x20x10 cm")
+ */
+export function buildPackageIndex(products: ShopifyProduct[], metafields: PackagingMetafields, enrichment: PackageEnrichment = {}): PackageIndex {
+    const index: PackageIndex = {};
+    for (const product of products) {
+        const row = enrichment[String(product.id)] || {};
+        index[product.id] = {
+            packageId: product.id,
+            ...(row.description ? { description: row.description } : {}),
+            variants: (product.variants || []).map(variant => {
+                const metafield = (key: string) => metafields.variants[variant.id]?.[key] || metafields.products[product.id]?.[key];
+                const read = <T>(key: string, fromTable: string | undefined, parse: (value: string) => T | null) =>
+                    (metafield(key) ? parse(metafield(key)!) : null) ?? (fromTable ? parse(fromTable) : null);
+
+                const maxLoadGrams = read(METAFIELD_KEYS.maxLoad, row.maxLoad, parseLoadValue);
+                const protection = read(METAFIELD_KEYS.protection, row.protection, parseProtectionValue);
+                const indexed = { id: variant.id, title: variant.title, maxLoadGrams, protection };
+
+                const fromMetafield = metafield(METAFIELD_KEYS.dimensions) ? parseDimensionsValue(metafield(METAFIELD_KEYS.dimensions)!) : null;
+                if (fromMetafield) {
+                    return { ...indexed, dimensions: fromMetafield, source: "metafield" };
+                }
+                const fromTable = row.innerDimensions ? parseDimensionsValue(row.innerDimensions) : null;
+                if (fromTable) {
+                    return { ...indexed, dimensions: fromTable, source: "enrichment" };
+                }
+                const options = [variant.option1, variant.option2, variant.option3, variant.title];
+                const fromOption = options.map(option => option ? parseDimensionsValue(option) : null).find(Boolean) || null;
+                return { ...indexed, dimensions: fromOption, source: fromOption ? "option" : null };
+            }),
+        };
+    }
+    return index;
+}
+
+/**
+ * The enrichment table, or an empty one when the namespace isn't bound or the value is unreadable
+ */
+export async function loadPackageEnrichment(kv: KVNamespace | undefined): Promise<PackageEnrichment> {
+    if (!kv) {
+        return {};
+    }
+    try {
+        return (await kv.get<PackageEnrichment>(ENRICHMENT_KEY, "json")) || {};
+    } catch (error: any) {
+        console.error("[loadPackageEnrichment] Error:", error);
+        return {};
+    }
+}
+
+/**
+ * Metafield or option text as cm dimensions - "30x20x10 cm", or JSON {"length": 30, "width": 20, "height": 10, "unit": "cm"}
+ */
+export function parseDimensionsValue(value: string): Dimensions | null {
+    let text = value;
+    if (value.trim().startsWith("{")) {
+        try {
+            const json = JSON.parse(value);
+            text = `${json.length}x${json.width}x${json.height} ${json.unit || "cm"}`;
+        } catch {
+            return null;
+        }
+    }
+    const parsed = parseAnswerAs("dimensions", text);
+    return parsed.ok && parsed.answer.type === "dimensions" ? parsed.answer.cm : null;
+}
+
+/**
+ * Max load in grams - "5 kg", or Shopify's weight metafield JSON {"value": 5, "unit": "KILOGRAMS"}
+ */
+export function parseLoadValue(value: string): number | null {
+    let text = value;
+    if (value.trim().startsWith("{")) {
+        try {
+            const json = JSON.parse(value);
+            const unit = String(json.unit || "g").toLowerCase().replace(/^kilograms$/, "kg").replace(/^grams$/, "g").replace(/^pounds$/, "lb").replace(/^ounces$/, "oz");
+            text = `${json.value} ${unit}`;
+        } catch {
+            return null;
+        }
+    }
+    const parsed = parseAnswerAs("weight", text);
+    return parsed.ok && parsed.answer.type === "weight" && parsed.answer.grams > 0 ? parsed.answer.grams : null;
+}
+
+export function parseProtectionValue(value: string): ProtectionLevel | null {
+    const level = value.toLowerCase().trim();
+    return (PROTECTION_LEVELS as readonly string[]).includes(level) ? level as ProtectionLevel : null;
+}
+
+/**
+ * Protection a fragility answer calls for - the charter's options in either language, or free text
+ * "Very fragile" and "Needs cushioning" require cushioning-compatible packages; "Somewhat fragile" prefers padded ones
+ */
+export function protectionNeed(fragility: string | undefined): ProtectionNeed | null {
+    const text = (fragility || "").toLowerCase();
+    if (!text || /\bnot\b|ليس|غير هش/.test(text)) {
+        return null;
+    }
+    if (/very|extremely|cushion|جدا|جداً|وسادة/.test(text)) {
+        return { level: "cushioned", required: true };
+    }
+    return { level: "padded", required: false };
+}
+
+export function getPaddingCm(value: string | undefined): number {
+    const padding = parseFloat(value || "");
+    return padding >= 0 ? padding : DEFAULT_PADDING_CM;
+}
+
+/**
+ * Room left around the product on its tightest side, once padded - negative when it doesn't fit
+ * Both sizes are sorted largest side first, so the product may be turned any way
+ */
+export function fitMargin(pkg: Dimensions, product: Dimensions, paddingCm: number): number {
+    const margin = Math.min(
+        pkg.length - product.length,
+        pkg.width - product.width,
+        pkg.height - product.height
+    ) - paddingCm;
+    return Math.round(margin * 10) / 10;
+}
+
+/**
+ * Whether any variant of a package meets the product's needs - the smallest one that does is reported
+ * Needs a variant has no data for don't exclude it; it is kept with that part "unknown"
+ */
+export function checkPackage(entry: PackageIndexEntry | undefined, needs: PackageNeeds): PackageCheck {
+    const variants = entry?.variants || [];
+    const failures = new Set<ConstraintFailure>();
+    const volume = (variant: IndexedVariant) => variant.dimensions ? variant.dimensions.length * variant.dimensions.width * variant.dimensions.height : Infinity;
+
+    const passing = variants.filter(variant => {
+        const failure = variantFailure(variant, needs);
+        if (failure) failures.add(failure);
+        return !failure;
+    }).sort((a, b) => volume(a) - volume(b));
+
+    if (variants.length > 0 && passing.length === 0) {
+        return { status: "excluded", failures: [...failures] };
+    }
+
+    const best: IndexedVariant | undefined = passing[0];
+    const maxLoadGrams = best?.maxLoadGrams ?? null;
+    const protectionLevel = best?.protection ?? null;
+
+    const fit = needs.dimensions ? (best?.dimensions ? "ok" : "unknown") : null;
+    let load: "ok" | "near_limit" | "unknown" | null = null;
+    if (needs.weightGrams !== null) {
+        load = maxLoadGrams === null ? "unknown" : needs.weightGrams > maxLoadGrams * NEAR_LOAD_LIMIT ? "near_limit" : "ok";
+    }
+    let protection: "ok" | "below_preferred" | "unknown" | null = null;
+    if (needs.protection) {
+        protection = protectionLevel === null ? "unknown" : protectionRank(protectionLevel) < protectionRank(needs.protection.level) ? "below_preferred" : "ok";
+    }
+
+    return {
+        status: "candidate",
+        variantId: best?.id ?? null,
+        variantTitle: best?.title ?? null,
+        fit,
+        marginCm: fit === "ok" ? fitMargin(best.dimensions!, needs.dimensions!, needs.paddingCm) : null,
+        load,
+        maxLoadGrams,
+        protection,
+        protectionLevel,
+        penalty: (load === "near_limit" ? LOAD_PENALTY : 0) + (protection === "below_preferred" ? PROTECTION_PENALTY : 0),
+    };
+}
+
+/**
+ * The need each variant of a package fails, by variant id - variants meeting every known need are left out
+ */
+export function variantFailures(entry: PackageIndexEntry | undefined, needs: PackageNeeds): Map<number, ConstraintFailure> {
+    const failures = new Map<number, ConstraintFailure>();
+    for (const variant of entry?.variants || []) {
+        const failure = variantFailure(variant, needs);
+        if (failure) failures.set(variant.id, failure);
+    }
+    return failures;
+}
+
+export function formatDimensions(dimensions: Dimensions): string {
+    return `${dimensions.length}x${dimensions.width}x${dimensions.height} cm`;
+}
+
+export function formatLoad(grams: number): string {
+    return grams >= 1000 ? `${Math.round(grams / 100) / 10} kg` : `${Math.round(grams)} g`;
+}
+
+function variantFailure(variant: IndexedVariant, needs: PackageNeeds): ConstraintFailure | null {
+    if (needs.dimensions && variant.dimensions && fitMargin(variant.dimensions, needs.dimensions, needs.paddingCm) < 0) {
+        return "too_small";
+    }
+    if (needs.weightGrams !== null && variant.maxLoadGrams != null && needs.weightGrams > variant.maxLoadGrams) {
+        return "too_heavy";
+    }
+    if (needs.protection?.required && variant.protection != null && protectionRank(variant.protection) < protectionRank(needs.protection.level)) {
+        return "not_protective";
+    }
+    return null;
+}
+
+function protectionRank(level: ProtectionLevel): number {
+    return PROTECTION_LEVELS.indexOf(level);
+}
@@ -0,0 +1,166 @@
+/**
+ * Project Store
+ * Keeps several concurrent projects (each with its own Memory) inside one PackagehaSession
+ */
+
+import { Memory, Project } from "./types";
+
+const PROJECTS_KEY = "projects";
+const ACTIVE_PROJECT_KEY = "active_project_id";
+const LEGACY_MEMORY_KEY = "memory";
+
+/**
+ * A request named a project that can't take turns - 404 when it doesn't exist, 409 when it is archived
+ */
+export class ProjectUnavailableError extends Error {
+    readonly status: 404 | 409;
+
+    constructor(projectId: string, archived: boolean) {
+        super(archived ? `Project "${projectId}" is archived` : `Project "${projectId}" not found`);
+        this.name = "ProjectUnavailableError";
+        this.status = archived ? 409 : 404;
+    }
+}
+
+export class ProjectStore {
+    private storage: DurableObjectStorage;
+
+    constructor(storage: DurableObjectStorage) {
+        this.storage = storage;
+    }
+
+    /**
+     * List projects, most recently updated first
+     */
+    async list(includeArchived: boolean = false): Promise<Project[]> {
+        const projects = Object.values(await this.getAll());
+        return projects
+            .filter(p => includeArchived || p.status === "active")
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    async get(projectId: string): Promise<Project | undefined> {
+        const projects = await this.getAll();
+        return projects[projectId];
+    }
+
+    async create(name?: string): Promise<Project> {
+        const projects = await this.getAll();
+        const now = Date.now();
+        const project: Project = {
+            id: crypto.randomUUID(),
+            name: name?.trim() || `Project ${Object.keys(projects).length + 1}`,
+            status: "active",
+            createdAt: now,
+            updatedAt: now,
+        };
+        projects[project.id] = project;
+        await this.storage.put(PROJECTS_KEY, projects);
+        return project;
+    }
+
+    async rename(projectId: string, name: string): Promise<Project | undefined> {
+        return this.update(projectId, { name: name.trim() });
+    }
+
+    /**
+     * Archive a project - its memory is kept for reference, but it is no longer active
+     */
+    async archive(projectId: string, details: Partial<Project> = {}): Promise<Project | undefined> {
+        const project = await this.update(projectId, {
+            ...details,
+            status: "archived",
+            archivedAt: Date.now(),
+        });
+        if (project && (await this.getActiveProjectId()) === projectId) {
+            await this.storage.delete(ACTIVE_PROJECT_KEY);
+        }
+        return project;
+    }
+
+    async touch(projectId: string): Promise<void> {
+        await this.update(projectId, {});
+    }
+
+    async getActiveProjectId(): Promise<string | undefined> {
+        return await this.storage.get<string>(ACTIVE_PROJECT_KEY);
+    }
+
+    async setActive(projectId: string): Promise<void> {
+        await this.storage.put(ACTIVE_PROJECT_KEY, projectId);
+    }
+
+    /**
+     * Resolve which project a request operates on
+     * Uses the requested project, else the active project, else a new one
+     * A requested project that is unknown or archived throws ProjectUnavailableError rather than falling back
+     */
+    async resolve(requestedProjectId?: string): Promise<Project> {
+        await this.migrateLegacyMemory();
+
+        if (requestedProjectId) {
+            const requested = await this.get(requestedProjectId);
+            if (!requested || requested.status !== "active") {
+                console.warn("[ProjectStore] Requested project not found or archived:", requestedProjectId);
+                throw new ProjectUnavailableError(requestedProjectId, !!requested);
+            }
+            await this.setActive(requested.id);
+            return requested;
+        }
+
+        const activeId = await this.getActiveProjectId();
+        const active = activeId ? await this.get(activeId) : undefined;
+        if (active && active.status === "active") {
+            return active;
+        }
+
+        const project = await this.create();
+        await this.setActive(project.id);
+        return project;
+    }
+
+    async loadMemory(projectId: string): Promise<Memory | undefined> {
+        return await this.storage.get<Memory>(memoryKey(projectId));
+    }
+
+    async saveMemory(projectId: string, memory: Memory): Promise<void> {
+        await this.storage.put(memoryKey(projectId), memory);
+        await this.touch(projectId);
+    }
+
+    async deleteMemory(projectId: string): Promise<void> {
+        await this.storage.delete(memoryKey(projectId));
+    }
+
+    private async getAll(): Promise<Record<string, Project>> {
+        return (await this.storage.get<Record<string, Project>>(PROJECTS_KEY)) || {};
+    }
+
+    private async update(projectId: string, changes: Partial<Project>): Promise<Project | undefined> {
+        const projects = await this.getAll();
+        const project = projects[projectId];
+        if (!project) return undefined;
+
+        projects[projectId] = { ...project, ...changes, updatedAt: Date.now() };
+        await this.storage.put(PROJECTS_KEY, projects);
+        return projects[projectId];
+    }
+
+    /**
+     * Move the pre-projects single "memory" key into a first project
+     */
+    private async migrateLegacyMemory(): Promise<void> {
+        const legacy = await this.storage.get<Memory>(LEGACY_MEMORY_KEY);
+        if (!legacy) return;
+
+        console.log("[ProjectStore] Migrating legacy memory into a project");
+        const project = await this.create();
+        await this.storage.put(memoryKey(project.id), legacy);
+        await this.setActive(project.id);
+        await this.storage.delete(LEGACY_MEMORY_KEY);
+    }
+}
+
+function memoryKey(projectId: string): string {
+    return `project:${projectId}:memory`;
+}
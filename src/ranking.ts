@@ -0,0 +1,118 @@
+/**
+ * Ranking
+ * One score for every package match, whether the model answered or not: a weighted mix of LLM relevance,
+ * keyword overlap, dimension fit, budget fit and price, with the breakdown the UI uses to explain the rank
+ */
+
+import { ShopifyProduct } from "./shopify";
+
+export const RANKING_SIGNALS = ["relevance", "keywords", "fit", "budget", "price"] as const;
+export type RankingSignal = typeof RANKING_SIGNALS[number];
+
+export type RankingWeights = Record<RankingSignal, number>;
+
+/**
+ * Each signal from 0 to 1 - null when the search has no data for it (no model answer, no product size, no budget),
+ * and its weight is shared out among the others
+ */
+export type SignalScores = Record<RankingSignal, number | null>;
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+    relevance: 0.35,
+    keywords: 0.15,
+    fit: 0.15,
+    budget: 0.2,
+    price: 0.15,
+};
+
+export const NEUTRAL_SCORE = 0.5; // A package a signal has no data for, when other packages have it
+const FIT_MARGIN_SCALE_CM = 5; // Spare room at which the fit scores 0.5 - snug packages rank first
+
+export interface SignalBreakdown {
+    score: number | null;
+    weight: number; // As applied, after the weight of missing signals is shared out
+    contribution: number; // score x weight
+}
+
+export interface ScoreBreakdown {
+    signals: Record<RankingSignal, SignalBreakdown>;
+    penalty: number; // Load near the limit, lighter protection than preferred (see package-index.ts)
+    total: number; // The match's combinedScore
+}
+
+/**
+ * Weights from RANKING_WEIGHTS ("relevance:0.4,keywords:0.1,fit:0.2,budget:0.2,price:0.1")
+ * Signals left out keep their default weight; unknown names and invalid values are ignored
+ */
+export function getRankingWeights(value: string | undefined): RankingWeights {
+    const weights = { ...DEFAULT_RANKING_WEIGHTS };
+    for (const part of (value || "").split(",")) {
+        const [name, raw] = part.split(":").map(piece => piece.trim());
+        const weight = parseFloat(raw);
+        if ((RANKING_SIGNALS as readonly string[]).includes(name) && weight >= 0) {
+            weights[name as RankingSignal] = weight;
+        }
+    }
+    return weights;
+}
+
+/**
+ * Combine a package's signals into its score, minus its constraint penalty
+ */
+export function rank(scores: SignalScores, weights: RankingWeights, penalty: number = 0): ScoreBreakdown {
+    const available = RANKING_SIGNALS.filter(signal => scores[signal] !== null);
+    const totalWeight = available.reduce((sum, signal) => sum + weights[signal], 0);
+
+    let sum = 0;
+    const signals = {} as Record<RankingSignal, SignalBreakdown>;
+    for (const signal of RANKING_SIGNALS) {
+        const score = scores[signal];
+        const weight = score !== null && totalWeight > 0 ? weights[signal] / totalWeight : 0;
+        sum += (score ?? 0) * weight;
+        signals[signal] = { score: score === null ? null : round(score), weight: round(weight), contribution: round((score ?? 0) * weight) };
+    }
+    return { signals, penalty: round(penalty), total: round(Math.min(1, Math.max(0, sum - penalty))) };
+}
+
+/**
+ * Dimension fit from the room left around the product - 1 for a snug fit, falling as the package gets roomier
+ */
+export function fitScore(marginCm: number | null): number {
+    if (marginCm === null) return NEUTRAL_SCORE;
+    return 1 / (1 + Math.max(0, marginCm) / FIT_MARGIN_SCALE_CM);
+}
+
+/**
+ * What a package's keywords are matched against: its title, type and tags
+ */
+export function packageKeywordText(product: ShopifyProduct): string {
+    return [product.title, product.product_type, product.tags].filter(Boolean).join(" ");
+}
+
+/**
+ * Words of the search (3+ letters) found in the package text
+ */
+export function matchingKeywords(query: string, packageText: string): { matched: number; total: number } {
+    const normalize = (text: string) => text.toLowerCase()
+        .replace(/[^\w\s]/g, ' ')
+        .split(/\s+/)
+        .filter(w => w.length > 2); // Filter out very short words
+
+    const queryWords = new Set(normalize(query || ""));
+    const packageWords = new Set(normalize(packageText || ""));
+    const matched = [...queryWords].filter(word => packageWords.has(word)).length;
+    return { matched, total: queryWords.size };
+}
+
+/**
+ * Calculate keyword match score between the search and a package's text
+ * Returns the share of search words found, from 0 to 1
+ */
+export function calculateKeywordMatchScore(query: string, packageText: string): number {
+    const { matched, total } = matchingKeywords(query, packageText);
+    return total > 0 ? matched / total : 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
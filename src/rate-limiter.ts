@@ -0,0 +1,166 @@
+/**
+ * Rate Limiter
+ * Token buckets in a Durable Object (one instance per client key) protecting the paid AI endpoints
+ */
+
+import { Env } from "./types";
+import { getClientIp, SessionIdentity } from "./auth";
+
+// Internal header the Worker uses to tell PackagehaSession which client key to charge
+export const RATE_LIMIT_KEY_HEADER = "X-Rate-Limit-Key";
+
+export type RateLimitBucket = "chat" | "discovery" | "image" | "session";
+
+export interface BucketConfig {
+    capacity: number; // Burst size
+    refillPerHour: number; // Sustained rate
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterSeconds: number; // 0 when allowed
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+const DEFAULT_BUCKETS: Record<RateLimitBucket, BucketConfig> = {
+    chat: { capacity: 30, refillPerHour: 300 },
+    discovery: { capacity: 10, refillPerHour: 60 },
+    image: { capacity: 5, refillPerHour: 20 },
+    session: { capacity: 10, refillPerHour: 30 }, // New session tokens per IP
+};
+
+/**
+ * Read a bucket's config from env ("<capacity>:<refill per hour>"), falling back to the default
+ */
+export function getBucketConfig(env: Env, bucket: RateLimitBucket): BucketConfig {
+    const raw = {
+        chat: env.RATE_LIMIT_CHAT,
+        discovery: env.RATE_LIMIT_DISCOVERY,
+        image: env.RATE_LIMIT_IMAGE,
+        session: env.RATE_LIMIT_SESSION,
+    }[bucket];
+
+    const [capacity, refillPerHour] = (raw || "").split(":").map(part => parseFloat(part));
+    if (capacity > 0 && refillPerHour > 0) {
+        return { capacity, refillPerHour };
+    }
+    return DEFAULT_BUCKETS[bucket];
+}
+
+/**
+ * Client key to rate limit on: the session id when the caller has a signed session, otherwise the IP
+ * Returns null for allowlisted clients (RATE_LIMIT_ALLOWLIST: comma-separated session ids and/or IPs)
+ */
+export function getRateLimitKey(env: Env, request: Request, identity?: SessionIdentity | null): string | null {
+    const ip = getClientIp(request);
+    const sessionId = identity?.source === "token" ? identity.sessionId : undefined;
+
+    const allowlist = (env.RATE_LIMIT_ALLOWLIST || "").split(",").map(entry => entry.trim()).filter(Boolean);
+    if (allowlist.includes(ip) || (sessionId && allowlist.includes(sessionId))) {
+        return null;
+    }
+
+    return sessionId ? `session:${sessionId}` : `ip:${ip}`;
+}
+
+/**
+ * Take one token from a client's bucket
+ * Fails open (allows the call) if the limiter itself errors - an outage shouldn't take chat down
+ */
+export async function consumeRateLimit(env: Env, key: string | null, bucket: RateLimitBucket): Promise<RateLimitResult> {
+    const config = getBucketConfig(env, bucket);
+    if (!key || !env.RateLimiter) {
+        return { allowed: true, remaining: config.capacity, retryAfterSeconds: 0 };
+    }
+
+    try {
+        const limiter = env.RateLimiter.get(env.RateLimiter.idFromName(key));
+        const response = await limiter.fetch("https://rate-limiter/consume", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ bucket, config }),
+        });
+        return await response.json() as RateLimitResult;
+    } catch (error: any) {
+        console.error("[consumeRateLimit] Error:", error);
+        return { allowed: true, remaining: config.capacity, retryAfterSeconds: 0 };
+    }
+}
+
+/**
+ * 429 response for a denied request
+ */
+export function rateLimitResponse(result: RateLimitResult, bucket: RateLimitBucket): Response {
+    return new Response(JSON.stringify({
+        error: "Too many requests. Please slow down and try again shortly.",
+        bucket,
+        retryAfter: result.retryAfterSeconds,
+    }), {
+        status: 429,
+        headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(result.retryAfterSeconds),
+        },
+    });
+}
+
+export class RateLimiter {
+    state: DurableObjectState;
+
+    constructor(state: DurableObjectState) {
+        this.state = state;
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        try {
+            const { bucket, config } = await request.json() as { bucket: RateLimitBucket; config: BucketConfig };
+            const result = await this.consume(bucket, config);
+            return new Response(JSON.stringify(result), {
+                headers: { "Content-Type": "application/json" },
+            });
+        } catch (error: any) {
+            console.error("[RateLimiter] Error:", error);
+            return new Response(JSON.stringify({ error: error.message }), { status: 400 });
+        }
+    }
+
+    private async consume(bucket: RateLimitBucket, config: BucketConfig, now: number = Date.now()): Promise<RateLimitResult> {
+        const key = `bucket:${bucket}`;
+        const refillPerMs = config.refillPerHour / (60 * 60 * 1000);
+        const stored = await this.state.storage.get<BucketState>(key);
+
+        // Refill since the last update, capped at capacity
+        let tokens = stored
+            ? Math.min(config.capacity, stored.tokens + (now - stored.updatedAt) * refillPerMs)
+            : config.capacity;
+
+        let result: RateLimitResult;
+        if (tokens >= 1) {
+            tokens -= 1;
+            result = { allowed: true, remaining: Math.floor(tokens), retryAfterSeconds: 0 };
+        } else {
+            result = { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+        }
+
+        await this.state.storage.put(key, { tokens, updatedAt: now } as BucketState);
+
+        // Once every bucket would be full again the state is meaningless - clear it then
+        const fullAt = now + (config.capacity - tokens) / refillPerMs;
+        const currentAlarm = await this.state.storage.getAlarm();
+        if (!currentAlarm || currentAlarm < fullAt) {
+            await this.state.storage.setAlarm(fullAt);
+        }
+
+        return result;
+    }
+
+    async alarm(): Promise<void> {
+        await this.state.storage.deleteAll();
+    }
+}
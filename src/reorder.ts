@@ -0,0 +1,130 @@
+/**
+ * Reorder
+ * Project snapshots stored on draft orders, and rebuilding a project from one to order the same package again
+ */
+
+import { DraftOrderSnapshot, Locale, Memory } from "./types";
+import { ShopifyDraftOrder } from "./shopify";
+import { isConfirmation } from "./answers";
+import { normalizeDigits } from "./i18n";
+
+export const SNAPSHOT_NAMESPACE = "studium";
+export const SNAPSHOT_KEY = "project";
+
+// Asked again on a reorder, with the original answer offered as the default
+export const REORDER_STEP_IDS = ["quantity", "timeline", "shipping_address"];
+
+// Launch kit services are one-off, so they are never repeated
+const NOT_REORDERED = ["service_selection", "service_timeline", "service_notes"];
+
+const KEEP_ANSWERS = ["same", "keep", "keep it", "same as before", "as before", "نفس", "نفسه", "نفس الشيء", "كما هو"];
+
+export interface PastOrder {
+    draftOrderId: number;
+    projectName: string;
+    packageName?: string;
+    orderedAt?: number;
+}
+
+export function buildSnapshot(memory: Memory): DraftOrderSnapshot {
+    const answers: Record<string, string> = {};
+    for (const [id, answer] of Object.entries(memory.clipboard)) {
+        if (!id.startsWith("_")) answers[id] = answer; // "_" keys are flow bookkeeping
+    }
+    return {
+        packageId: memory.packageId,
+        packageName: memory.packageName,
+        variantId: memory.selectedVariantId,
+        variantName: memory.selectedVariantName,
+        answers,
+    };
+}
+
+/**
+ * Rebuild a snapshot from the draft order itself, for orders placed before snapshots were stored
+ * Answers come from the project brief in the note, the package from the line items
+ */
+export function snapshotFromDraftOrder(order: ShopifyDraftOrder): DraftOrderSnapshot {
+    const answers: Record<string, string> = {};
+    for (const line of order.note.split("\n")) {
+        // Brief lines look like "- QUANTITY: 500" or "- PACKAGE MATERIAL: Kraft"
+        const match = line.match(/^- (?:PACKAGE |FULFILLMENT |LAUNCH KIT )?([A-Z0-9_]+): (.+)$/);
+        if (match) {
+            answers[match[1].toLowerCase()] = match[2].trim();
+        }
+    }
+
+    const customPackage = order.lineItems.find(item => !item.variantId && item.title.startsWith("Custom Package"));
+    if (customPackage) {
+        answers["custom_package"] = "true";
+        const dimensions = customPackage.title.match(/\((.+)\)$/);
+        if (dimensions && dimensions[1] !== "Not specified") {
+            answers["custom_package_dimensions"] = dimensions[1];
+        }
+        return { packageName: "Custom Package", variantName: "Custom", answers };
+    }
+
+    const packageItem = order.lineItems.find(item => item.variantId);
+    return {
+        packageId: packageItem?.productId ?? undefined,
+        packageName: packageItem?.title,
+        variantId: packageItem?.variantId ?? undefined,
+        variantName: packageItem?.variantTitle,
+        answers,
+    };
+}
+
+/**
+ * Start a reorder project from a snapshot: the package and specs are reused, the fulfillment answers are offered again
+ */
+export function applySnapshot(memory: Memory, snapshot: DraftOrderSnapshot, draftOrderId: number): void {
+    memory.packageId = snapshot.packageId;
+    memory.packageName = snapshot.packageName;
+    memory.selectedVariantId = snapshot.variantId;
+    memory.selectedVariantName = snapshot.variantName;
+    memory.reorderOf = draftOrderId;
+    memory.clipboard = {};
+    memory.answers = {}; // Parsed again from the clipboard on use
+    memory.previousAnswers = {};
+
+    for (const [id, answer] of Object.entries(snapshot.answers)) {
+        if (NOT_REORDERED.includes(id)) continue;
+        if (REORDER_STEP_IDS.includes(id)) {
+            memory.previousAnswers[id] = answer;
+        } else {
+            memory.clipboard[id] = answer;
+        }
+    }
+}
+
+/**
+ * "yes" / "same" to an offered previous answer
+ */
+export function isKeepAnswer(message: string): boolean {
+    const normalized = message.toLowerCase().trim().replace(/[.!]+$/, "");
+    return isConfirmation(normalized) || KEEP_ANSWERS.includes(normalized);
+}
+
+/**
+ * The past order a reply picks: its number in the list, or its draft order id ("#1234567")
+ * Only the customer's own orders can be picked
+ */
+export function pickPastOrder(message: string, orders: PastOrder[]): PastOrder | undefined {
+    const text = normalizeDigits(message).trim();
+    const id = text.match(/^#?\s*(\d+)$/);
+    if (!id) return undefined;
+
+    const value = parseInt(id[1]);
+    if (!text.startsWith("#") && value >= 1 && value <= orders.length) {
+        return orders[value - 1];
+    }
+    return orders.find(order => order.draftOrderId === value);
+}
+
+export function formatPastOrders(orders: PastOrder[], locale: Locale): string {
+    return orders.map((order, index) => {
+        const date = order.orderedAt ? new Date(order.orderedAt).toLocaleDateString(locale === "ar" ? "ar-SA" : "en-US") : "";
+        const details = [`#${order.draftOrderId}`, date].filter(Boolean).join(", ");
+        return `${index + 1}. **${order.projectName}**${order.packageName ? ` - ${order.packageName}` : ""} (${details})`;
+    }).join("\n");
+}
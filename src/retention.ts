@@ -0,0 +1,62 @@
+/**
+ * Session Retention
+ * Per-environment idle/retention windows and the "resume where you left off" choice
+ */
+
+import { Env, Locale, Memory } from "./types";
+import { SUPPORTED_LOCALES, t } from "./i18n";
+
+const DEFAULT_IDLE_MINUTES = 60;
+const DEFAULT_RETENTION_DAYS = 30;
+
+const RESUME_REPLIES = ["resume", "continue", "yes", "متابعة", "استمر", "نعم"];
+const FRESH_REPLIES = ["new", "new project", "fresh", "start fresh", "start over", "no", "جديد", "مشروع جديد", "ابدأ من جديد", "لا"];
+
+/**
+ * The two answers to the resume offer: [resume, start fresh]
+ */
+export function resumeOptions(locale: Locale): string[] {
+    return [t(locale, "resumeOption"), t(locale, "newProjectOption")];
+}
+
+export interface RetentionConfig {
+    idleMs: number; // Gap after which the next message offers to resume
+    retentionMs: number; // Inactivity after which the cleanup alarm archives a project
+}
+
+export function getRetentionConfig(env: Env): RetentionConfig {
+    const idleMinutes = parseFloat(env.SESSION_IDLE_MINUTES || "");
+    const retentionDays = parseFloat(env.SESSION_RETENTION_DAYS || "");
+    return {
+        idleMs: (idleMinutes > 0 ? idleMinutes : DEFAULT_IDLE_MINUTES) * 60 * 1000,
+        retentionMs: (retentionDays > 0 ? retentionDays : DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000,
+    };
+}
+
+/**
+ * True when the customer has been away long enough (and had made progress) to offer a resume
+ */
+export function shouldOfferResume(memory: Memory, config: RetentionConfig, now: number = Date.now()): boolean {
+    if (!memory.lastActivity || now - memory.lastActivity < config.idleMs) {
+        return false;
+    }
+    const hasAnswers = Object.keys(memory.clipboard || {}).some(key => !key.startsWith("_"));
+    return memory.step !== "start" || hasAnswers || !!memory.packageId;
+}
+
+/**
+ * Interpret the customer's reply to the resume offer - only a whole reply counts (an option label or a yes/no),
+ * so a greeting or a sentence that merely contains "no" is asked again rather than archiving the project
+ */
+export function parseResumeChoice(message: string): "resume" | "fresh" | null {
+    const reply = message.toLowerCase().trim().replace(/[.!؟?]+$/, "").trim();
+    if (!reply) return null;
+    const options = SUPPORTED_LOCALES.map(locale => resumeOptions(locale).map(option => option.toLowerCase()));
+    if (options.some(([resume]) => reply === resume) || RESUME_REPLIES.includes(reply)) {
+        return "resume";
+    }
+    if (options.some(([, fresh]) => reply === fresh) || FRESH_REPLIES.includes(reply)) {
+        return "fresh";
+    }
+    return null;
+}
@@ -0,0 +1,223 @@
+/**
+ * Package Retrieval
+ * Embeddings of every catalog package, kept by the product_cache session, and top-K retrieval by cosine similarity
+ * so a search only sends its best candidates to the model
+ *
+ * Storage layout (product_cache session):
+ *   package_embeddings        -> { model, fingerprint, chunks, count, updatedAt }
+ *   package_embeddings:<n>    -> { ids, hashes, vectors } - vectors flattened into one Float32Array, chunked under the 128 KiB value limit
+ */
+
+import { ShopifyProduct } from "./shopify";
+import { PackageIndex, PackageIndexEntry } from "./package-index";
+import { hashState } from "./idempotency";
+
+export const RETRIEVAL_SESSION_NAME = "product_cache"; // The singleton session the catalog warmup fills
+export const RETRIEVAL_PATH = "/internal/retrieve-packages"; // Sent session to session - the Worker doesn't route it
+
+const DEFAULT_TOP_K = 40;
+const META_KEY = "package_embeddings";
+const CHUNK_PREFIX = "package_embeddings:";
+const CHUNK_BYTES = 96 * 1024;
+const MAX_KEYS_PER_CALL = 128; // Storage get/put limit
+const MAX_TEXT_LENGTH = 500;
+
+type Embedder = (texts: string[]) => Promise<{ model: string; vectors: number[][] }>;
+
+interface LoadedIndex {
+    model: string;
+    fingerprint: string;
+    entries: Map<number, StoredEmbedding>;
+}
+
+interface EmbeddingMeta {
+    model: string;
+    fingerprint: string; // Of every package's text - unchanged means nothing to do
+    chunks: number;
+    count: number;
+    updatedAt: number;
+}
+
+interface EmbeddingChunk {
+    ids: number[];
+    hashes: string[];
+    vectors: Float32Array; // ids.length vectors, one after another
+}
+
+interface StoredEmbedding {
+    hash: string; // Of the embedded text - a changed text is embedded again
+    vector: Float32Array; // Unit length, so cosine similarity is a dot product
+}
+
+export interface RetrievalRequest {
+    query: string;
+    k: number;
+    packageIds?: number[]; // Only rank these (the packages that passed screening)
+}
+
+export interface RetrievalResult {
+    packageIds: number[]; // Most similar first
+    similarities: number[];
+}
+
+export function getRetrievalTopK(value: string | undefined): number {
+    const k = parseInt(value || "");
+    return k > 0 ? k : DEFAULT_TOP_K;
+}
+
+/**
+ * What a package is embedded as: its title, type and tags, the enrichment description, variant names and protection
+ */
+export function packageEmbeddingText(product: ShopifyProduct, entry?: PackageIndexEntry): string {
+    const variants = (product.variants || []).map(v => v.title).filter(title => title && title !== "Default Title");
+    const protection = entry?.variants.find(v => v.protection)?.protection;
+    return [
+        product.title.replace(/TEST\s?-\s?|rs-/gi, "").trim(),
+        product.product_type,
+        product.tags,
+        entry?.description,
+        variants.length > 0 ? `Variants: ${variants.join(", ")}` : null,
+        protection ? `${protection} protection` : null,
+    ].filter(Boolean).join(". ").slice(0, MAX_TEXT_LENGTH);
+}
+
+export class PackageEmbeddingStore {
+    private storage: DurableObjectStorage;
+    private embedder: Embedder;
+    private loaded: LoadedIndex | null = null; // Kept while the object lives
+
+    constructor(storage: DurableObjectStorage, embedder: Embedder) {
+        this.storage = storage;
+        this.embedder = embedder;
+    }
+
+    /**
+     * Bring the index in line with the catalog: new packages and packages whose text changed are embedded,
+     * removed ones are dropped. Nothing is embedded or written when the catalog hasn't changed
+     */
+    async sync(products: ShopifyProduct[], index: PackageIndex): Promise<void> {
+        const current = await this.load();
+        const texts = new Map(products.map(product => [product.id, packageEmbeddingText(product, index[product.id])]));
+        const fingerprint = await hashState([...texts.entries()]);
+        if (fingerprint === current.fingerprint) {
+            return;
+        }
+        const hashes = new Map<number, string>();
+        for (const [id, text] of texts) {
+            hashes.set(id, (await hashState(text)).slice(0, 16));
+        }
+
+        let stale = products.filter(product => current.entries.get(product.id)?.hash !== hashes.get(product.id));
+        const removed = [...current.entries.keys()].filter(id => !texts.has(id));
+        if (stale.length === 0 && removed.length === 0) {
+            await this.save(current.model, fingerprint, current.entries);
+            return;
+        }
+
+        let { model, vectors } = await this.embedder(stale.map(product => texts.get(product.id)!));
+        let entries = new Map(current.entries);
+        if (current.model && model !== current.model && stale.length < products.length) {
+            // The AI mode changed - vectors from the old model can't be compared with new ones
+            console.log(`[PackageEmbeddingStore] Embedding model changed (${current.model} -> ${model}), re-embedding the catalog`);
+            stale = products;
+            ({ model, vectors } = await this.embedder(products.map(product => texts.get(product.id)!)));
+            entries = new Map();
+        }
+
+        for (const id of removed) {
+            entries.delete(id);
+        }
+        stale.forEach((product, i) => entries.set(product.id, { hash: hashes.get(product.id)!, vector: normalize(vectors[i]) }));
+        await this.save(model, fingerprint, entries);
+        console.log(`[PackageEmbeddingStore] Embedded ${stale.length} packages, removed ${removed.length} (${entries.size} indexed, ${model})`);
+    }
+
+    /**
+     * The k packages most similar to the query
+     */
+    async search(request: RetrievalRequest): Promise<RetrievalResult> {
+        const current = await this.load();
+        if (current.entries.size === 0) {
+            throw new Error("Package embeddings have not been built");
+        }
+        const { model, vectors } = await this.embedder([request.query]);
+        if (model !== current.model) {
+            throw new Error(`Query embedded with ${model}, index built with ${current.model}`);
+        }
+
+        const query = normalize(vectors[0]);
+        const allowed = request.packageIds ? new Set(request.packageIds) : null;
+        const scored: Array<{ id: number; similarity: number }> = [];
+        for (const [id, entry] of current.entries) {
+            if (allowed && !allowed.has(id)) continue;
+            scored.push({ id, similarity: dot(query, entry.vector) });
+        }
+        const top = scored.sort((a, b) => b.similarity - a.similarity).slice(0, request.k);
+        return {
+            packageIds: top.map(s => s.id),
+            similarities: top.map(s => Math.round(s.similarity * 1000) / 1000),
+        };
+    }
+
+    private async load(): Promise<LoadedIndex> {
+        if (this.loaded) {
+            return this.loaded;
+        }
+        const entries = new Map<number, StoredEmbedding>();
+        const meta = await this.storage.get<EmbeddingMeta>(META_KEY);
+        const keys = Array.from({ length: meta?.chunks || 0 }, (_, i) => `${CHUNK_PREFIX}${i}`);
+        for (let start = 0; start < keys.length; start += MAX_KEYS_PER_CALL) {
+            const chunks = await this.storage.get<EmbeddingChunk>(keys.slice(start, start + MAX_KEYS_PER_CALL));
+            for (const chunk of chunks.values()) {
+                const dims = chunk.vectors.length / chunk.ids.length;
+                chunk.ids.forEach((id, i) => entries.set(id, {
+                    hash: chunk.hashes[i],
+                    vector: chunk.vectors.subarray(i * dims, (i + 1) * dims),
+                }));
+            }
+        }
+        this.loaded = { model: meta?.model || "", fingerprint: meta?.fingerprint || "", entries };
+        return this.loaded;
+    }
+
+    private async save(model: string, fingerprint: string, entries: Map<number, StoredEmbedding>): Promise<void> {
+        const all = [...entries.entries()];
+        const dims = all[0]?.[1].vector.length || 1;
+        const perChunk = Math.max(1, Math.floor(CHUNK_BYTES / (dims * 4 + 64))); // 4 bytes a float, plus the id and hash
+
+        const chunks: Record<string, EmbeddingChunk> = {};
+        for (let start = 0, n = 0; start < all.length; start += perChunk, n++) {
+            const slice = all.slice(start, start + perChunk);
+            const vectors = new Float32Array(slice.length * dims);
+            slice.forEach(([, entry], i) => vectors.set(entry.vector, i * dims));
+            chunks[`${CHUNK_PREFIX}${n}`] = { ids: slice.map(([id]) => id), hashes: slice.map(([, entry]) => entry.hash), vectors };
+        }
+
+        const keys = Object.keys(chunks);
+        for (let start = 0; start < keys.length; start += MAX_KEYS_PER_CALL) {
+            await this.storage.put(Object.fromEntries(keys.slice(start, start + MAX_KEYS_PER_CALL).map(key => [key, chunks[key]])));
+        }
+        // Chunks past the new count belong to a larger catalog
+        const previous = (await this.storage.get<EmbeddingMeta>(META_KEY))?.chunks || 0;
+        const leftover = Array.from({ length: Math.max(0, previous - keys.length) }, (_, i) => `${CHUNK_PREFIX}${keys.length + i}`);
+        for (let start = 0; start < leftover.length; start += MAX_KEYS_PER_CALL) {
+            await this.storage.delete(leftover.slice(start, start + MAX_KEYS_PER_CALL));
+        }
+        const meta: EmbeddingMeta = { model, fingerprint, chunks: keys.length, count: all.length, updatedAt: Date.now() };
+        await this.storage.put(META_KEY, meta);
+        this.loaded = { model, fingerprint, entries };
+    }
+}
+
+function normalize(vector: number[]): Float32Array {
+    const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+    return Float32Array.from(vector, x => x / length);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length && i < b.length; i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
@@ -0,0 +1,47 @@
+/**
+ * Samples
+ * Sample pricing and the per-session limit for the sample_request flow
+ * The limit is counted over the projects of one session (there is no customer account to key it to),
+ * so a customer with a new session token starts again - it deters repeat requests, it doesn't enforce them
+ */
+
+import { CustomLineItem, Env, Memory, Project } from "./types";
+
+const DEFAULT_SAMPLE_PRICE = 50; // SAR per sample
+const DEFAULT_SAMPLE_LIMIT = 3; // Samples per session
+
+// Added to the draft order tags so staff can filter sample orders in Shopify
+export const SAMPLE_TAG = "studium-sample";
+
+export interface SampleConfig {
+    price: number; // 0 = free samples
+    limitPerSession: number;
+}
+
+export function getSampleConfig(env: Env): SampleConfig {
+    const price = parseFloat(env.SAMPLE_PRICE || "");
+    const limit = parseInt(env.SAMPLE_LIMIT_PER_SESSION || "");
+    return {
+        price: price >= 0 ? price : DEFAULT_SAMPLE_PRICE,
+        limitPerSession: limit > 0 ? limit : DEFAULT_SAMPLE_LIMIT,
+    };
+}
+
+/**
+ * Samples already ordered in this session: completed sample projects that have a draft order
+ */
+export function countSampleOrders(projects: Project[]): number {
+    return projects.filter(project => project.sampleRequest && project.draftOrderId).length;
+}
+
+/**
+ * The single sample unit, priced at the sample price rather than the package price
+ */
+export function sampleLineItem(memory: Memory, config: SampleConfig): CustomLineItem {
+    const variant = memory.selectedVariantName && memory.selectedVariantName !== "Default" ? ` - ${memory.selectedVariantName}` : "";
+    return {
+        title: `Sample: ${memory.packageName || "Package"}${variant}`,
+        price: config.price.toFixed(2),
+        quantity: 1,
+    };
+}
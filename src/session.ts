@@ -3,13 +3,38 @@
  * Stateful Durable Object that maintains conversation memory and follows the Charter
  */
 
-import { getActiveProducts, createDraftOrder, CustomLineItem } from "./shopify";
+import { getActiveProducts, createDraftOrder, getDraftOrder, getDraftOrderMetafield, setDraftOrderMetafield, getPackagingMetafields, CustomLineItem, DraftOrderResult, PackagingMetafields, ShopifyProduct } from "./shopify";
 import { 
     SALES_CHARTER, 
-    LAUNCH_KIT_CHARTER, 
-    buildCharterPrompt 
+    Charter,
+    CharterStep,
+    buildCharterPrompt,
+    buildConversationPrompt,
+    isStepVisible,
+    nextOpenStepIndex
 } from "./charter";
+import { loadCharter } from "./charter-store";
+import { formatServiceCatalog, parseServiceSelection, serviceLineItems, serviceName, serviceOption } from "./launch-kit";
+import { classifyIntent, flowName, flowSwitchOptions, isFlowIntent, otherFlowNames, parseFlowSwitch, parseFlowSwitchConfirmation } from "./intent";
+import { captureNavigation, navigate, parseNavigationCommand, recordNavigation, NavigationCommand } from "./navigation";
+import { countSampleOrders, getSampleConfig, sampleLineItem, SAMPLE_TAG } from "./samples";
+import { checkPackageFit, isSearchAgain } from "./dependencies";
+import { budgetFitScore, checkPrice, priceScore, formatUnitBudget, getUnitBudget, PriceCheck, UnitBudget } from "./budget";
+import { buildPackageIndex, checkPackage, formatDimensions, formatLoad, getPaddingCm, loadPackageEnrichment, protectionNeed, variantFailures, PACKAGING_NAMESPACE, ConstraintFailure, PackageCheck, PackageIndex, PackageNeeds } from "./package-index";
+import { calculateKeywordMatchScore, fitScore, getRankingWeights, matchingKeywords, packageKeywordText, rank, RankingWeights, ScoreBreakdown, SignalScores, NEUTRAL_SCORE } from "./ranking";
+import { getRetrievalTopK, PackageEmbeddingStore, RetrievalRequest, RetrievalResult, RETRIEVAL_PATH, RETRIEVAL_SESSION_NAME } from "./retrieval";
+import { applySnapshot, buildSnapshot, formatPastOrders, isKeepAnswer, pickPastOrder, snapshotFromDraftOrder, PastOrder, SNAPSHOT_KEY, SNAPSHOT_NAMESPACE } from "./reorder";
+import { FlowDefinition, FlowContext, FlowResult, FlowStage, runFlow, enterStage, completeStage, findStage, findQuestionStage, getStageSteps } from "./flow-engine";
+import { parseAnswer, parseAnswerAs, getTypedAnswer, formatAnswer, isConfirmation } from "./answers";
 import { SovereignSwitch } from "./sovereign-switch";
+import { encodeSSE, SSE_HEADERS } from "./sse";
+import { consumeRateLimit, rateLimitResponse, RATE_LIMIT_KEY_HEADER } from "./rate-limiter";
+import { IdempotencyStore, IdempotencyConflictError, IDEMPOTENCY_HEADER_NAME, hashState } from "./idempotency";
+import { ProjectStore, ProjectUnavailableError } from "./projects";
+import { MatchStreamParser, StreamedMatch } from "./match-stream";
+import { TranscriptStore } from "./transcript";
+import { getRetentionConfig, shouldOfferResume, parseResumeChoice, RetentionConfig, resumeOptions } from "./retention";
+import { t, detectLocale, isSupportedLocale, canonicalizeAnswer, localizedOptions, languageRule, DEFAULT_LOCALE, MessageKey } from "./i18n";
 import { 
     Env, 
     Memory, 
@@ -18,7 +43,16 @@ import {
     AIDecision, 
     VariantDecision, 
     RequestBody,
-    AgentFlow
+    AgentFlow,
+    Project,
+    ChatResponse,
+    ChatStreamEvent,
+    FlowState,
+    CurrentQuestion,
+    PackageSelection,
+    Locale,
+    DraftOrderSnapshot,
+    DetectedIntent
 } from "./types";
 
 // Default memory template - timestamps set when creating new memory
@@ -29,6 +63,38 @@ const DEFAULT_MEMORY_TEMPLATE: Omit<Memory, "createdAt" | "lastActivity"> = {
     questionIndex: 0,
 };
 
+const PACKAGE_INDEX_KEY = "package_index"; // Stored with products_cache (see getCachedProducts)
+const PACKAGE_METAFIELDS_KEY = "package_metafields"; // Last packaging metafields read (see refreshPackageMetafields)
+
+interface ChatTurnResult {
+    payload: ChatResponse;
+    status?: number;
+}
+
+// Checks run on the catalog before scoring, by catalog index (see screenPackages)
+interface PackageScreening {
+    shown: Set<number>; // Indexes that meet the product's needs and, while any do, the budget
+    checks: PackageCheck[] | null;
+    prices: PriceCheck[];
+    budget: UnitBudget | null;
+    overBudgetOnly: boolean; // Nothing was in budget, so over-budget packages are shown (flagged)
+    maxUnitCost: number; // Priciest package shown - the price scale when there is no budget
+}
+
+// Fields the screening and ranking add to a match
+interface RankedMatch {
+    fitMarginCm?: number | null;
+    fitVariantId?: number;
+    loadStatus?: string;
+    protectionStatus?: string;
+    unitCost?: number | null;
+    budgetStatus?: string;
+    fitnessScore: number; // The model's relevance, or the keyword overlap when it didn't answer
+    priceScore: number;
+    combinedScore: number;
+    scoreBreakdown: ScoreBreakdown;
+}
+
 const GREETINGS = ["hi", "hello", "hey", "hola", "مرحبا", "هلا", "أهلا"];
 const RESET_KEYWORDS = ["reset", "إعادة", "start over", "new", "جديد"];
 
@@ -36,24 +102,344 @@ export class PackagehaSession {
     state: DurableObjectState;
     env: Env;
     private sovereignSwitch: SovereignSwitch;
+    private projects: ProjectStore;
+    private transcript: TranscriptStore;
+    private retention: RetentionConfig;
+    private idempotency: IdempotencyStore;
+    private embeddings: PackageEmbeddingStore; // Catalog embeddings - only built in the product_cache session
+    private embeddingSync: Promise<void> | null = null; // Sync in progress (see syncEmbeddings)
+    private rankingWeights: RankingWeights;
+    private flows: Record<AgentFlow, FlowDefinition>;
+    private emit: (event: ChatStreamEvent) => void = () => {}; // Event sink for streaming transports
+    private streaming = false; // The turn has a streaming listener - discovery then streams the model's reply
+    private turnQueue: Promise<unknown> = Promise.resolve();
+    private project!: Project; // Project the current request operates on
+    private charter: Charter = SALES_CHARTER; // Charter version the current project is pinned to
+    private locale: Locale = DEFAULT_LOCALE; // Reply language for the current turn
+    private idempotencyKey?: string; // Client-supplied Idempotency-Key for the current turn
+    private rateLimitKey: string | null = null; // Client key charged for AI usage (set by the Worker; null = allowlisted)
 
     constructor(state: DurableObjectState, env: Env) {
         this.state = state;
         this.env = env;
         this.sovereignSwitch = new SovereignSwitch(env);
+        this.projects = new ProjectStore(state.storage);
+        this.transcript = new TranscriptStore(state.storage);
+        this.retention = getRetentionConfig(env);
+        this.idempotency = new IdempotencyStore(state.storage);
+        this.rankingWeights = getRankingWeights(env.RANKING_WEIGHTS);
+        this.embeddings = new PackageEmbeddingStore(state.storage, texts => this.sovereignSwitch.embed(texts));
+        this.flows = this.buildFlows();
     }
 
     async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        this.rateLimitKey = request.headers.get(RATE_LIMIT_KEY_HEADER);
+        if (url.pathname.startsWith("/api/projects")) {
+            return await this.handleProjectsRequest(request, url);
+        }
+        if (url.pathname === "/api/chat/history" && request.method === "GET") {
+            return await this.handleHistoryRequest(url);
+        }
+        if (url.pathname === "/api/chat/ws") {
+            return this.handleWebSocketUpgrade(request);
+        }
+        if (url.pathname === "/api/chat/stream" && request.method === "POST") {
+            return await this.handleChatStream(request);
+        }
+        if (url.pathname === "/api/create-draft-order" && request.method === "POST") {
+            return await this.handleDraftOrderRequest(request);
+        }
+        if (url.pathname === "/api/project" || url.pathname.startsWith("/api/project/")) {
+            return await this.handleProjectApiRequest(request, url);
+        }
+        if (url.pathname === "/api/prefetch-products" && request.method === "POST") {
+            return await this.handleWarmupRequest();
+        }
+        if (url.pathname === RETRIEVAL_PATH && request.method === "POST") {
+            return await this.handleRetrievalRequest(request);
+        }
+        return await this.handleChatRequest(request);
+    }
+
+    private async handleChatRequest(request: Request): Promise<Response> {
+        // Parse request
+        const body = await this.parseRequestBody(request);
+
+        // Cache warmup sent as a chat message by older clients - not part of any project
+        if ((body.message || "").trim() === "_warmup_cache_") {
+            return await this.handleWarmupRequest();
+        }
+
+        const limit = await consumeRateLimit(this.env, this.rateLimitKey, "chat");
+        if (!limit.allowed) {
+            return rateLimitResponse(limit, "chat");
+        }
+
+        // The header takes precedence over a key sent in the body
+        body.idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER_NAME) || body.idempotencyKey;
+
+        const result = await this.runChatTurn(body);
+        return this.jsonResponse(result.payload, result.status);
+    }
+
+    /**
+     * POST /api/prefetch-products - fill the product cache (internal, sent to the product_cache session)
+     */
+    private async handleWarmupRequest(): Promise<Response> {
+        console.log("[PackagehaSession] Cache warmup requested");
+        const products = await this.getCachedProducts(); // This will fetch and cache products
+        if (this.sovereignSwitch.canEmbed()) {
+            await this.syncEmbeddings(products);
+        }
+        return this.jsonResponse({ reply: "Cache warmed up" });
+    }
+
+    /**
+     * POST /internal/retrieve-packages - top-K packages for a search (internal, sent to the product_cache session)
+     * Searches use the embeddings as they are; they are brought up to date with the catalog after the response,
+     * so a catalog change never re-embeds inside a customer's search
+     */
+    private async handleRetrievalRequest(request: Request): Promise<Response> {
+        const body = await this.parseJson<RetrievalRequest>(request);
+        if (!body.query || !(body.k > 0)) {
+            return this.jsonResponse({ error: "query and k are required" }, 400);
+        }
+        if (!this.sovereignSwitch.canEmbed()) {
+            return this.jsonResponse({ error: "Embeddings are not available in this mode" }, 409);
+        }
+        try {
+            const products = await this.getCachedProducts();
+            this.state.waitUntil(this.syncEmbeddings(products));
+            return this.jsonResponse(await this.embeddings.search(body));
+        } catch (error: any) {
+            console.error("[handleRetrievalRequest] Error:", error);
+            return this.jsonResponse({ error: error.message }, 500);
+        }
+    }
+
+    /**
+     * Bring the embeddings up to date with the catalog - one sync at a time, later callers wait for it
+     */
+    private syncEmbeddings(products: ShopifyProduct[]): Promise<void> {
+        if (!this.embeddingSync) {
+            this.embeddingSync = (async () => {
+                try {
+                    await this.embeddings.sync(products, await this.getPackageIndex(products));
+                } catch (error: any) {
+                    console.error("[syncEmbeddings] Error:", error);
+                } finally {
+                    this.embeddingSync = null;
+                }
+            })();
+        }
+        return this.embeddingSync;
+    }
+
+    /**
+     * Run one chat turn (shared by the JSON POST and WebSocket transports)
+     */
+    private async runChatTurn(body: RequestBody, emit?: (event: ChatStreamEvent) => void): Promise<ChatTurnResult> {
+        return this.enqueueTurn(async (): Promise<ChatTurnResult> => {
+            // Resolve which project this message belongs to
+            try {
+                this.project = await this.projects.resolve(body.projectId);
+                await this.useProjectCharter(this.requestedLocale(body));
+            } catch (error: any) {
+                if (error instanceof ProjectUnavailableError) {
+                    return {
+                        payload: { reply: t(this.requestedLocale(body) || this.locale, error.status === 409 ? "projectArchived" : "projectNotFound") },
+                        status: error.status
+                    };
+                }
+                console.error("[PackagehaSession] Error resolving project:", error);
+                return {
+                    payload: { reply: t(this.locale, "genericError") },
+                    status: 500
+                };
+            }
+
+            this.emit = emit || (() => {});
+            this.streaming = !!emit;
+            this.idempotencyKey = body.idempotencyKey;
+            try {
+                const result = await this.processChatTurn(body);
+                await this.recordTranscript(body, result);
+                return result;
+            } finally {
+                this.emit = () => {};
+                this.streaming = false;
+                this.idempotencyKey = undefined;
+            }
+        });
+    }
+
+    /**
+     * Queue work behind any in-flight turn
+     * Turns run one at a time so per-turn state (project, event sink) never interleaves
+     */
+    private enqueueTurn<T>(run: () => Promise<T>): Promise<T> {
+        const turn = this.turnQueue.then(run, run);
+        this.turnQueue = turn.catch(() => undefined);
+        return turn;
+    }
+
+    // ==================== WEBSOCKET ====================
+
+    /**
+     * GET /api/chat/ws - streaming chat over WebSocket
+     * The client sends the same JSON body as POST /api/chat; the server answers with typed
+     * events (status, productMatches, currentQuestion, draftOrder) followed by "done"
+     */
+    private handleWebSocketUpgrade(request: Request): Response {
+        if (request.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+            return this.jsonResponse({ error: "Expected a WebSocket upgrade" }, 426);
+        }
+
+        const pair = new WebSocketPair();
+        const [client, server] = Object.values(pair);
+        server.accept();
+
+        server.addEventListener("message", (event: MessageEvent) => {
+            this.handleSocketMessage(server, event.data).catch(error => {
+                console.error("[handleSocketMessage] Error:", error);
+            });
+        });
+
+        return new Response(null, { status: 101, webSocket: client });
+    }
+
+    private async handleSocketMessage(socket: WebSocket, data: string | ArrayBuffer): Promise<void> {
+        const send = (event: ChatStreamEvent) => {
+            try {
+                socket.send(JSON.stringify(event));
+            } catch (error: any) {
+                console.warn("[handleSocketMessage] Send failed (socket closed?):", error.message);
+            }
+        };
+
+        let body: RequestBody;
+        try {
+            body = JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data)) as RequestBody;
+        } catch {
+            send({ type: "error", error: "Messages must be JSON chat requests" });
+            return;
+        }
+
+        const limit = await consumeRateLimit(this.env, this.rateLimitKey, "chat");
+        if (!limit.allowed) {
+            send({ type: "error", error: t(this.requestedLocale(body) || this.locale, "tooManyMessages"), retryAfter: limit.retryAfterSeconds });
+            return;
+        }
+
+        const result = await this.runChatTurn(body, send);
+        if (result.payload.currentQuestion) {
+            send({ type: "currentQuestion", currentQuestion: result.payload.currentQuestion });
+        }
+        if (result.payload.draftOrder) {
+            send({ type: "draftOrder", draftOrder: result.payload.draftOrder });
+        }
+        send({ type: "done", status: result.status || 200, response: result.payload });
+    }
+
+    // ==================== SERVER-SENT EVENTS ====================
+
+    /**
+     * POST /api/chat/stream - free-form conversational reply streamed as SSE
+     * Answers questions about packaging without advancing the consultation;
+     * sends "token" events as text arrives, then "done" with the complete reply
+     */
+    private async handleChatStream(request: Request): Promise<Response> {
+        const body = await this.parseRequestBody(request);
+        const userMessage = (body.message || "").trim();
+        if (!userMessage) {
+            return this.jsonResponse({ error: "message is required" }, 400);
+        }
+
+        const limit = await consumeRateLimit(this.env, this.rateLimitKey, "chat");
+        if (!limit.allowed) {
+            return rateLimitResponse(limit, "chat");
+        }
+
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        const writer = writable.getWriter();
+        const send = (event: ChatStreamEvent) => writer.write(encodeSSE(event)).catch(() => {
+            // Client disconnected - keep generating so the transcript stays complete
+        });
+
+        this.enqueueTurn(async () => {
+            let reply = "";
+            try {
+                this.project = await this.projects.resolve(body.projectId);
+                await this.useProjectCharter(this.requestedLocale(body));
+                const memory = await this.loadMemory();
+                const systemPrompt = buildConversationPrompt(this.describeConsultation(memory), this.charter);
+
+                for await (const chunk of this.sovereignSwitch.streamAI(userMessage, systemPrompt)) {
+                    reply += chunk;
+                    await send({ type: "token", text: chunk });
+                }
+
+                memory.lastActivity = Date.now();
+                await this.saveMemory(memory);
+
+                const payload: ChatResponse = { reply, flowState: this.buildFlowState(memory) };
+                await send({ type: "done", status: 200, response: payload });
+                await this.recordTranscript(body, { payload });
+            } catch (error: any) {
+                if (error instanceof ProjectUnavailableError) {
+                    await send({ type: "error", error: t(this.requestedLocale(body) || this.locale, error.status === 409 ? "projectArchived" : "projectNotFound") });
+                    return;
+                }
+                console.error("[handleChatStream] Error:", error);
+                await send({ type: "error", error: t(this.locale, "streamError") });
+            } finally {
+                await writer.close().catch(() => {});
+            }
+        });
+
+        return new Response(readable, { headers: SSE_HEADERS });
+    }
+
+    /**
+     * Summarize the consultation for the conversational prompt (package and answers so far)
+     */
+    private describeConsultation(memory: Memory): string {
+        const lines: string[] = [];
+        if (memory.packageName) {
+            lines.push(`Selected package: ${memory.packageName}${memory.selectedVariantName ? ` (${memory.selectedVariantName})` : ""}`);
+        }
+        for (const [key, value] of Object.entries(memory.clipboard || {})) {
+            if (!key.startsWith("_") && value) {
+                lines.push(`${key}: ${value}`);
+            }
+        }
+        return lines.join("\n");
+    }
+
+    /**
+     * Send the ranked match list to the event sink - it replaces any matches streamed while the model was scoring
+     */
+    private emitMatches(matches: any[]): void {
+        this.emit({ type: "productMatches", matches, partial: false, total: matches.length });
+    }
+
+    /**
+     * Process one chat turn for the current project and build its response payload
+     */
+    private async processChatTurn(body: RequestBody): Promise<ChatTurnResult> {
         try {
-            // Parse request
-            const body = await this.parseRequestBody(request);
-            const userMessage = (body.message || "").trim();
+            let userMessage = (body.message || "").trim();
 
-            // Handle cache warmup (internal)
-            if (userMessage === "_warmup_cache_") {
-                console.log("[PackagehaSession] Cache warmup requested");
-                await this.getCachedProducts(); // This will fetch and cache products
-                return this.jsonResponse({ reply: "Cache warmed up" });
+            // Handle the reply to a "resume where you left off" offer
+            // (before reset keywords, since "Start a new project" contains "new")
+            const resumeChoice = await this.handlePendingResume(body, userMessage);
+            if (resumeChoice.payload) {
+                return { payload: resumeChoice.payload };
+            }
+            if (resumeChoice.handled) {
+                // Continue with an empty message so the flow re-asks its current question
+                userMessage = "";
             }
 
             // Handle reset (via message keyword or explicit reset parameter)
@@ -64,20 +450,22 @@ export class PackagehaSession {
             // Handle regenerate draft order request
             if (userMessage === "regenerate_order" || body.regenerateOrder === true) {
                 const memory = await this.loadMemory();
-                // Regenerate draft order without resetting memory
-                const result = await this.createProjectQuote(memory, false); // false = don't reset memory
-                return this.jsonResponse({
-                    reply: result.reply,
-                    flowState: {
-                        step: memory.step,
-                        packageName: memory.packageName,
-                        variantName: memory.selectedVariantName,
-                        hasPackage: !!memory.packageId,
-                        hasVariant: !!memory.selectedVariantId,
-                        questionIndex: memory.questionIndex
-                    },
-                    draftOrder: result.draftOrder
-                });
+                // Only a finished flow (or one already quoted) has what a draft order needs
+                if (memory.step !== "draft_order" && !memory.quotedDraftOrderId) {
+                    console.log("[runChatTurn] Draft order not ready - step:", memory.step);
+                    return { payload: { reply: t(this.locale, "quoteNotReady"), flowState: this.buildFlowState(memory) }, status: 409 };
+                }
+                // Regenerate draft order without resetting memory (samples always count against the limit, so they are created anew)
+                const result = memory.flow === "sample_request"
+                    ? await this.createSampleOrder(memory)
+                    : await this.createProjectQuote(memory, false); // false = don't reset memory
+                return {
+                    payload: {
+                        reply: result.reply,
+                        flowState: this.buildFlowState(memory),
+                        draftOrder: result.draftOrder
+                    }
+                };
             }
 
             // Handle edit requests (format: "edit:questionId")
@@ -85,94 +473,125 @@ export class PackagehaSession {
             if (userMessage.startsWith("edit:")) {
                 const questionId = userMessage.replace("edit:", "").trim();
                 const memory = await this.loadMemory();
+                const before = captureNavigation(memory);
                 
-                // Store the original questionIndex and step before edit
-                const originalQuestionIndex = memory.questionIndex;
-                const originalStep = memory.step;
+                // Find the stage that asks this question
+                const flow = this.flows[memory.flow];
+                const found = flow ? findQuestionStage(flow, this.charter, questionId) : null;
                 
-                // Determine which step this question belongs to and get the question
-                let question: any = null;
-                let stepName: string = "";
-                
-                if (SALES_CHARTER.productDetails && SALES_CHARTER.productDetails.steps.some(s => s.id === questionId)) {
-                    const stepIndex = SALES_CHARTER.productDetails.steps.findIndex(s => s.id === questionId);
-                    if (stepIndex >= 0) {
-                        question = SALES_CHARTER.productDetails.steps[stepIndex];
-                        stepName = "product_details";
-                    }
-                } else if (SALES_CHARTER.packageSpecs && SALES_CHARTER.packageSpecs.steps.some(s => s.id === questionId)) {
-                    const stepIndex = SALES_CHARTER.packageSpecs.steps.findIndex(s => s.id === questionId);
-                    if (stepIndex >= 0) {
-                        question = SALES_CHARTER.packageSpecs.steps[stepIndex];
-                        stepName = "select_package_specs";
-                    }
-                } else if (SALES_CHARTER.fulfillmentSpecs && SALES_CHARTER.fulfillmentSpecs.steps.some(s => s.id === questionId)) {
-                    const stepIndex = SALES_CHARTER.fulfillmentSpecs.steps.findIndex(s => s.id === questionId);
-                    if (stepIndex >= 0) {
-                        question = SALES_CHARTER.fulfillmentSpecs.steps[stepIndex];
-                        stepName = "fulfillment_specs";
-                    }
-                } else if (SALES_CHARTER.launchKit && SALES_CHARTER.launchKit.steps.some(s => s.id === questionId)) {
-                    const stepIndex = SALES_CHARTER.launchKit.steps.findIndex(s => s.id === questionId);
-                    if (stepIndex >= 0) {
-                        question = SALES_CHARTER.launchKit.steps[stepIndex];
-                        stepName = "launch_kit";
-                    }
-                }
-                
-                if (question) {
-                    // Mark that we're editing (store in clipboard for later detection)
-                    memory.clipboard['_editing'] = questionId;
-                    // Store original state to restore after edit
-                    memory.clipboard['_originalQuestionIndex'] = originalQuestionIndex.toString();
-                    memory.clipboard['_originalStep'] = originalStep;
-                    
-                    // Set step to the question's step (for UI activation)
-                    memory.step = stepName;
-                    // DO NOT change questionIndex - keep it at current position
+                if (found) {
+                    const question = found.step;
+                    this.openForEditing(memory, found);
                     
-                    await this.state.storage.put("memory", memory);
+                    recordNavigation(memory, before); // "undo" cancels the edit
+                    await this.saveMemory(memory);
                     
-                    return this.jsonResponse({ 
-                        reply: question.question,
-                        flowState: {
-                            step: memory.step,
-                            packageName: memory.packageName,
-                            variantName: memory.selectedVariantName,
-                            hasPackage: !!memory.packageId,
-                            hasVariant: !!memory.selectedVariantId,
-                            questionIndex: memory.questionIndex // Keep original questionIndex
-                        },
-                        currentQuestion: {
-                            id: question.id,
-                            question: question.question,
-                            options: (question as any).options || null,
-                            multiple: (question as any).multiple !== undefined ? (question as any).multiple : true,
-                            defaultValue: memory.clipboard[questionId] || null // Show current answer as default
+                    return {
+                        payload: {
+                            reply: question.question,
+                            flowState: this.buildFlowState(memory), // Keeps original questionIndex
+                            currentQuestion: this.questionPayload(question, memory.clipboard[questionId] || null) // Show current answer as default
                         }
-                    });
+                    };
                 }
             }
 
             // Load or initialize memory
             let memory = await this.loadMemory();
             
-            // Auto-reset stale sessions (older than 1 hour)
-            const oneHourAgo = Date.now() - (60 * 60 * 1000);
-            if (memory.lastActivity && memory.lastActivity < oneHourAgo) {
-                console.log("[PackagehaSession] Stale session detected (older than 1 hour) - resetting");
-                await this.state.storage.delete("memory");
-                memory = await this.loadMemory(); // Creates fresh memory
+            // After a long gap, offer to resume instead of silently resetting
+            // (stale projects are archived by the cleanup alarm, not here)
+            if (!resumeChoice.handled && body.resume !== true && shouldOfferResume(memory, this.retention)) {
+                console.log("[PackagehaSession] Idle session detected - offering to resume");
+                memory.pendingResume = true;
+                memory.lastActivity = Date.now();
+                await this.saveMemory(memory);
+                return { payload: this.buildResumeOffer(memory) };
             }
 
-            // Determine flow (explicit from request or from memory)
-            const requestedFlow = body.flow || memory.flow || "direct_sales";
+            // Back/undo restore an earlier state, then the turn carries on with an empty message to re-ask its question
+            const navigation: NavigationCommand | null = body.undo ? "undo" : body.back ? "back" : parseNavigationCommand(userMessage);
+            if (navigation) {
+                if (!navigate(memory, navigation)) {
+                    return { payload: { reply: t(this.locale, "nothingToUndo"), flowState: this.buildFlowState(memory) } };
+                }
+                console.log("[PackagehaSession] Navigated", navigation, "to step:", memory.step, "question:", memory.questionIndex);
+                userMessage = "";
+            }
+            const before = navigation ? null : captureNavigation(memory);
+
+            // Determine flow: explicit from the request, a "switch to ..." from the customer,
+            // detected from the opening message of a new project, or the one in memory
+            let requestedFlow = body.flow || memory.flow || "direct_sales";
+            let detectedIntent: DetectedIntent | undefined;
+            let switchTo: AgentFlow | null = null;
+            const pendingSwitch = memory.pendingFlowSwitch;
+            delete memory.pendingFlowSwitch;
+            if (!body.flow) {
+                const named = parseFlowSwitch(userMessage);
+                if (named && named !== memory.flow && !this.isUnstartedProject(memory)) {
+                    // Switching drops the answers given so far - ask first
+                    memory.pendingFlowSwitch = named;
+                    await this.saveMemory(memory);
+                    return { payload: this.buildFlowSwitchConfirmation(memory, named) };
+                }
+                if (named) {
+                    switchTo = named;
+                } else if (pendingSwitch) {
+                    const confirmed = parseFlowSwitchConfirmation(userMessage);
+                    if (confirmed) {
+                        switchTo = pendingSwitch;
+                    } else if (confirmed === false) {
+                        userMessage = ""; // Staying - repeat the open question
+                    }
+                }
+            }
+            if (switchTo === memory.flow) {
+                switchTo = null;
+                userMessage = ""; // Already in that flow - repeat the open question
+            }
+            if (switchTo) {
+                detectedIntent = { intent: switchTo, confidence: 1, source: "user" };
+                requestedFlow = switchTo;
+                userMessage = ""; // The new flow opens with its first question
+            } else if (!body.flow && userMessage && this.isUnstartedProject(memory)) {
+                detectedIntent = await classifyIntent(userMessage, this.sovereignSwitch);
+                console.log("[PackagehaSession] Detected intent:", detectedIntent.intent, "from", detectedIntent.source);
+                if (!isFlowIntent(detectedIntent.intent)) {
+                    memory.intent = detectedIntent;
+                    return { payload: await this.replyWithoutFlow(userMessage, memory, detectedIntent) };
+                }
+                requestedFlow = detectedIntent.intent;
+            }
+            if (detectedIntent) {
+                memory.intent = detectedIntent;
+            }
             if (!memory.flow || memory.flow !== requestedFlow) {
                 // Flow changed - reset to start of new flow
                 memory.flow = requestedFlow as AgentFlow;
                 memory.step = "start";
                 memory.clipboard = {};
                 memory.questionIndex = 0;
+                delete memory.previousAnswers;
+                delete memory.reorderOf;
+                delete memory.pendingRediscovery;
+                delete memory.quotedDraftOrderId;
+                delete memory.quoteOutdated;
+                // The package was picked for the old flow's answers
+                delete memory.packageId;
+                delete memory.packageName;
+                delete memory.variants;
+                delete memory.fitVariantId;
+                delete memory.selectedVariantId;
+                delete memory.selectedVariantName;
+                delete memory.pendingMatches;
+                delete memory.answers;
+            }
+
+            // A reorder started from a past order in the UI picks it directly
+            if (memory.flow === "reorder" && body.draftOrderId && (memory.step === "start" || memory.step === "select_order")) {
+                memory.step = "select_order";
+                userMessage = `#${body.draftOrderId}`;
             }
 
             // Handle Salla product selection (from store, image, or text)
@@ -240,7 +659,7 @@ export class PackagehaSession {
             // Reset invalid states
             // CRITICAL: Preserve package specs (material, print) when resetting package selection
             if ((memory.step === "select_package_specs" || memory.step === "select_package_variant" || 
-                 memory.step === "fulfillment_specs" || memory.step === "launch_kit") && !hasPackage) {
+                 memory.step === "fulfillment_specs" || memory.step === "launch_kit" || memory.step === "sample_shipping") && !hasPackage) {
                 console.log("[PackagehaSession] Invalid memory state: in package steps without package selected - resetting to start");
                 
                 // Preserve package specs before clearing clipboard
@@ -263,7 +682,8 @@ export class PackagehaSession {
                 memory.selectedVariantId = undefined;
                 memory.packageName = undefined;
                 memory.selectedVariantName = undefined;
-            } else if ((memory.step === "select_package" || memory.step === "select_package_discovery") && !hasProductDetails) {
+            } else if ((memory.step === "select_package" || memory.step === "select_package_discovery") && !hasProductDetails &&
+                       memory.flow === "direct_sales") { // Sample requests search without product details
                 console.log("[PackagehaSession] Invalid memory state: in package selection without product details - resetting to product_details");
                 memory.step = "product_details";
                 memory.questionIndex = 0;
@@ -275,6 +695,29 @@ export class PackagehaSession {
                 memory.clipboard = {};
             }
 
+            // Project API requests: a typed answer runs as the message (an earlier question is edited in place),
+            // a package choice is applied instead of running the stage
+            let selectionResult: FlowResult | undefined;
+            if (body.answer) {
+                if (!await this.prepareAnswer(memory, body.answer.stepId)) {
+                    return { payload: { reply: t(this.locale, "unknownQuestion"), flowState: this.buildFlowState(memory) }, status: 404 };
+                }
+                userMessage = body.answer.value.trim();
+            } else if (body.packageSelection) {
+                const selected = await this.applyPackageSelection(memory, body.packageSelection);
+                if ("error" in selected) {
+                    return { payload: { reply: t(this.locale, selected.error), flowState: this.buildFlowState(memory) }, status: selected.status };
+                }
+                selectionResult = selected;
+            }
+
+            // After an edit invalidated the package, the next message either accepts a new search or carries on
+            let rediscover = false;
+            if (memory.pendingRediscovery && userMessage) {
+                delete memory.pendingRediscovery;
+                rediscover = isSearchAgain(userMessage);
+            }
+
             // Route to appropriate flow handler
             let reply: string;
             let memoryWasReset = false;
@@ -282,32 +725,38 @@ export class PackagehaSession {
             let productMatches: any[] | undefined = undefined;
             let isAutoSearch: boolean | undefined = undefined;
             
-            switch (memory.flow) {
-                case "direct_sales":
-                    const directSalesResult = await this.handleDirectSalesFlow(userMessage, memory);
-                    reply = directSalesResult.reply;
-                    memoryWasReset = directSalesResult.memoryReset || false;
-                    draftOrder = directSalesResult.draftOrder;
-                    productMatches = directSalesResult.productMatches;
-                    isAutoSearch = directSalesResult.isAutoSearch;
-                    break;
-                case "launch_kit":
-                    const launchKitResult = await this.handleLaunchKitFlow(userMessage, memory);
-                    reply = launchKitResult.reply;
-                    memoryWasReset = launchKitResult.memoryReset || false;
-                    draftOrder = launchKitResult.draftOrder;
-                    break;
-                default:
-                    reply = "I'm not sure what to do. Type 'reset' to start over.";
-                    const now = Date.now();
-                    memory = {
-                        flow: DEFAULT_MEMORY_TEMPLATE.flow,
-                        step: DEFAULT_MEMORY_TEMPLATE.step,
-                        clipboard: {},
-                        questionIndex: DEFAULT_MEMORY_TEMPLATE.questionIndex,
-                        createdAt: now,
-                        lastActivity: now,
-                    };
+            const flow = this.flows[memory.flow];
+            if (flow) {
+                const flowResult = navigation
+                    ? await this.replyAfterNavigation(memory, navigation)
+                    : selectionResult
+                        ? selectionResult
+                        : rediscover
+                        ? await this.rediscoverPackage(memory)
+                        : await runFlow(flow, this.flowContext(memory), userMessage);
+                reply = flowResult.reply;
+                memoryWasReset = flowResult.memoryReset || false;
+                draftOrder = flowResult.draftOrder;
+                if (detectedIntent && detectedIntent.source !== "user") {
+                    const intro = t(this.locale, "intentDetected", {
+                        flow: flowName(memory.flow, this.locale),
+                        others: otherFlowNames(memory.flow, this.locale),
+                    });
+                    reply = `${intro}\n\n${reply}`;
+                }
+                productMatches = flowResult.productMatches;
+                isAutoSearch = flowResult.isAutoSearch;
+            } else {
+                reply = t(this.locale, "unknownFlow");
+                const now = Date.now();
+                memory = {
+                    flow: DEFAULT_MEMORY_TEMPLATE.flow,
+                    step: DEFAULT_MEMORY_TEMPLATE.step,
+                    clipboard: {},
+                    questionIndex: DEFAULT_MEMORY_TEMPLATE.questionIndex,
+                    createdAt: now,
+                    lastActivity: now,
+                };
             }
 
             // Save memory if it wasn't reset (deleted)
@@ -316,14 +765,18 @@ export class PackagehaSession {
             // - If memory doesn't exist, it was newly created by loadMemory() and should be persisted
             // - The only time we don't save is when memoryWasReset=true (explicitly deleted)
             if (!memoryWasReset) {
+                if (before) {
+                    recordNavigation(memory, before);
+                }
                 // Update memory timestamp and save
                 memory.lastActivity = Date.now();
-                await this.state.storage.put("memory", memory);
+                await this.saveMemory(memory);
             }
 
             // Build response with optional fields
-            const response: any = { reply };
+            const response: ChatResponse = { reply };
             if (draftOrder) response.draftOrder = draftOrder;
+            if (detectedIntent) response.intent = detectedIntent;
             if (productMatches) {
                 response.productMatches = productMatches;
                 // Mark if this is an auto-search result (either from handler or memory flag)
@@ -337,14 +790,7 @@ export class PackagehaSession {
             }
             
             // Add flow state for UI tracking
-            response.flowState = {
-                step: memory.step,
-                packageName: memory.packageName, // Packageha's package (what we sell), NOT client's product
-                variantName: memory.selectedVariantName,
-                hasPackage: !!memory.packageId, // Packageha's package selected, NOT client's product
-                hasVariant: !!memory.selectedVariantId,
-                questionIndex: memory.questionIndex
-            };
+            response.flowState = this.buildFlowState(memory);
             
             // Add variant options if we're in variant selection step OR if package is selected but variant isn't
             // This helps frontend know what variants are available even if we haven't explicitly asked yet
@@ -355,103 +801,779 @@ export class PackagehaSession {
                     response.variants = memory.variants.map(v => ({
                         id: v.id,
                         title: v.title,
-                        price: v.price
+                        price: v.price,
+                        recommended: v.id === memory.fitVariantId
                     }));
                 }
             }
             
-            // Add current consultation question based on current step
-            let consultationPhase: { mission: string; steps: any[] } | null = null;
-            if (memory.step === "product_details" && SALES_CHARTER.productDetails) {
-                consultationPhase = SALES_CHARTER.productDetails;
-            } else if (memory.step === "select_package_specs" && SALES_CHARTER.packageSpecs) {
-                consultationPhase = SALES_CHARTER.packageSpecs;
-            } else if (memory.step === "fulfillment_specs" && SALES_CHARTER.fulfillmentSpecs) {
-                consultationPhase = SALES_CHARTER.fulfillmentSpecs;
-            } else if (memory.step === "launch_kit" && SALES_CHARTER.launchKit) {
-                consultationPhase = SALES_CHARTER.launchKit;
-            } else if (memory.step === "consultation") {
-                // Legacy consultation step (for old flows)
-                if (memory.flow === "direct_sales" && SALES_CHARTER.consultation) {
-                    consultationPhase = SALES_CHARTER.consultation;
-                }
+            // Add current consultation question based on the current stage's charter phase
+            const currentQuestion = this.buildCurrentQuestion(memory);
+            if (currentQuestion) {
+                response.currentQuestion = currentQuestion;
             }
-            
-            if (consultationPhase) {
-                const steps = consultationPhase.steps;
-                const currentIndex = memory.questionIndex;
-                
-                // Skip over already answered questions to find the next unanswered one
-                let questionToShow = currentIndex;
-                while (questionToShow < steps.length) {
-                    const stepId = steps[questionToShow].id;
-                    if (!memory.clipboard[stepId]) {
-                        // Found an unanswered question
-                        break;
+
+            return { payload: response };
+
+        } catch (error: any) {
+            console.error("[PackagehaSession] Error:", error);
+            return {
+                payload: { reply: t(this.locale, "genericError") },
+                status: 500
+            };
+        }
+    }
+
+    /**
+     * True until the project's first flow step - the opening message still picks the flow
+     */
+    private isUnstartedProject(memory: Memory): boolean {
+        const hasAnswers = Object.keys(memory.clipboard || {}).some(key => !key.startsWith("_"));
+        return memory.step === "start" && !hasAnswers && !memory.packageId;
+    }
+
+    /**
+     * Opening messages that don't start a flow: greetings get the menu, support questions a conversational answer
+     * The project stays unstarted, so the next message is classified again
+     */
+    private async replyWithoutFlow(userMessage: string, memory: Memory, intent: DetectedIntent): Promise<ChatResponse> {
+        let reply = t(this.locale, "intentSmallTalk");
+        if (intent.intent === "support") {
+            try {
+                const systemPrompt = buildConversationPrompt(this.describeConsultation(memory), this.charter);
+                const answer = await this.sovereignSwitch.callAI(userMessage, systemPrompt);
+                reply = `${answer.trim()}\n\n${t(this.locale, "intentSupportFollowUp")}`;
+            } catch (error: any) {
+                console.error("[replyWithoutFlow] Error:", error);
+            }
+        }
+
+        memory.lastActivity = Date.now();
+        await this.saveMemory(memory);
+        return { reply, flowState: this.buildFlowState(memory), intent };
+    }
+
+    /**
+     * Flow state for UI tracking (shared by every response shape)
+     */
+    private buildFlowState(memory: Memory): FlowState {
+        return {
+            flow: memory.flow,
+            step: memory.step,
+            packageName: memory.packageName, // Packageha's package (what we sell), NOT client's product
+            variantName: memory.selectedVariantName,
+            hasPackage: !!memory.packageId, // Packageha's package selected, NOT client's product
+            hasVariant: !!memory.selectedVariantId,
+            questionIndex: memory.questionIndex,
+            projectId: this.project.id,
+            projectName: this.project.name,
+            locale: this.locale,
+            quoteOutdated: memory.quoteOutdated
+        };
+    }
+
+    /**
+     * Open question of the current stage's charter phase, or undefined when the stage isn't asking one
+     */
+    private buildCurrentQuestion(memory: Memory): CurrentQuestion | undefined {
+        const flow = this.flows[memory.flow];
+        const currentStage = flow ? findStage(flow, memory.step) : undefined;
+        const steps = currentStage ? getStageSteps(currentStage, this.charter) : null;
+        if (!steps) {
+            return undefined;
+        }
+
+        // Skip answered questions and those hidden by showIf conditions
+        const questionToShow = nextOpenStepIndex(steps, memory.clipboard, memory.questionIndex);
+        if (questionToShow >= steps.length) {
+            return undefined; // All questions are answered
+        }
+
+        const currentStep = steps[questionToShow];
+        // Generate default value based on product/variant info if applicable
+        let defaultValue = null;
+        if (currentStep.id === "quantity" && memory.clipboard["quantity"]) {
+            defaultValue = memory.clipboard["quantity"];
+        } else if (memory.previousAnswers?.[currentStep.id]) {
+            // Reorder - the original order's answer
+            defaultValue = memory.previousAnswers[currentStep.id];
+        } else if (currentStep.id === "dimensions" || currentStep.id === "product_dimensions") {
+            // Could suggest based on product type, but for now leave empty
+            defaultValue = "";
+        }
+        return this.questionPayload(currentStep, defaultValue);
+    }
+
+    private questionPayload(step: CharterStep, defaultValue: string | null): CurrentQuestion {
+        return {
+            id: step.id,
+            question: step.question,
+            options: localizedOptions(step, this.locale),
+            multiple: step.multiple !== undefined ? step.multiple : true, // Default to multiple if not specified
+            defaultValue
+        };
+    }
+
+    // ==================== RETENTION ====================
+
+    /**
+     * Resolve a pending "resume where you left off" offer
+     * Returns a payload when the offer must be repeated, or handled=true once the customer chose
+     */
+    private async handlePendingResume(body: RequestBody, userMessage: string): Promise<{ handled: boolean; payload?: ChatResponse }> {
+        const memory = await this.loadMemory();
+        if (!memory.pendingResume) {
+            return { handled: false };
+        }
+
+        const choice = body.resume === true ? "resume"
+            : body.resume === false ? "fresh"
+            : parseResumeChoice(userMessage);
+
+        if (choice === "resume") {
+            console.log("[handlePendingResume] Resuming project:", this.project.id);
+            memory.pendingResume = undefined;
+            memory.lastActivity = Date.now();
+            await this.saveMemory(memory);
+            return { handled: true };
+        }
+
+        if (choice === "fresh") {
+            console.log("[handlePendingResume] Starting a new project, archiving:", this.project.id);
+            memory.pendingResume = undefined;
+            await this.saveMemory(memory);
+            await this.projects.archive(this.project.id, { archivedReason: "abandoned" });
+            this.project = await this.projects.resolve();
+            return { handled: true };
+        }
+
+        return { handled: false, payload: this.buildResumeOffer(memory) };
+    }
+
+    private buildFlowSwitchConfirmation(memory: Memory, flow: AgentFlow): ChatResponse {
+        return {
+            reply: t(this.locale, "flowSwitchConfirm", { flow: flowName(flow, this.locale) }),
+            flowState: this.buildFlowState(memory),
+            currentQuestion: {
+                id: "_flow_switch",
+                question: t(this.locale, "flowSwitchConfirm", { flow: flowName(flow, this.locale) }),
+                options: flowSwitchOptions(this.locale),
+                multiple: false,
+                defaultValue: null
+            }
+        };
+    }
+
+    private buildResumeOffer(memory: Memory): ChatResponse {
+        const progress = memory.packageName
+            ? t(this.locale, "resumeProgressWithPackage", { project: this.project.name, package: memory.packageName })
+            : t(this.locale, "resumeProgress", { project: this.project.name });
+        return {
+            reply: t(this.locale, "welcomeBack", { progress }),
+            flowState: this.buildFlowState(memory),
+            currentQuestion: {
+                id: "_resume",
+                question: t(this.locale, "resumeQuestion"),
+                options: resumeOptions(this.locale),
+                multiple: false,
+                defaultValue: null
+            }
+        };
+    }
+
+    /**
+     * Schedule the cleanup alarm for when the most recent activity falls out of retention
+     */
+    private async scheduleCleanup(): Promise<void> {
+        await this.state.storage.setAlarm(Date.now() + this.retention.retentionMs);
+    }
+
+    /**
+     * Cleanup alarm - archives (never deletes) projects idle for longer than the retention window
+     */
+    async alarm(): Promise<void> {
+        const now = Date.now();
+        const cutoff = now - this.retention.retentionMs;
+        const projects = await this.projects.list();
+
+        let nextExpiry: number | null = null;
+        for (const project of projects) {
+            if (project.updatedAt <= cutoff) {
+                console.log("[alarm] Archiving expired project:", project.id);
+                await this.projects.archive(project.id, { archivedReason: "expired" });
+            } else {
+                const expiry = project.updatedAt + this.retention.retentionMs;
+                nextExpiry = nextExpiry === null ? expiry : Math.min(nextExpiry, expiry);
+            }
+        }
+
+        const purged = await this.idempotency.purgeExpired(now);
+        if (purged > 0) {
+            console.log("[alarm] Purged expired idempotency records:", purged);
+        }
+
+        if (nextExpiry !== null) {
+            await this.state.storage.setAlarm(nextExpiry);
+        }
+    }
+
+    // ==================== TRANSCRIPT ====================
+
+    /**
+     * Append the user message and the assistant response to the project's transcript
+     */
+    private async recordTranscript(body: RequestBody, result: ChatTurnResult): Promise<void> {
+        try {
+            const now = Date.now();
+            const payload = result.payload;
+            await this.transcript.append(this.project.id, [
+                {
+                    role: "user",
+                    timestamp: now,
+                    message: body.message || "",
+                    request: {
+                        flow: body.flow,
+                        reset: body.reset,
+                        regenerateOrder: body.regenerateOrder,
+                        edit: body.edit,
+                        sallaProductId: body.sallaProductId,
+                        answer: body.answer,
+                        packageSelection: body.packageSelection
                     }
-                    questionToShow++;
+                },
+                {
+                    role: "assistant",
+                    timestamp: now,
+                    status: result.status || 200,
+                    reply: payload.reply,
+                    flowState: payload.flowState,
+                    currentQuestion: payload.currentQuestion,
+                    productMatches: payload.productMatches,
+                    draftOrder: payload.draftOrder
                 }
-                
-                if (questionToShow < steps.length) {
-                    const currentStep = steps[questionToShow];
-                    // Generate default value based on product/variant info if applicable
-                    let defaultValue = null;
-                    if (currentStep.id === "quantity" && memory.clipboard["quantity"]) {
-                        defaultValue = memory.clipboard["quantity"];
-                    } else if (currentStep.id === "dimensions" || currentStep.id === "product_dimensions") {
-                        // Could suggest based on product type, but for now leave empty
-                        defaultValue = "";
-                    }
-                    
-                    response.currentQuestion = {
-                        id: currentStep.id,
-                        question: currentStep.question,
-                        options: (currentStep as any).options || null,
-                        multiple: (currentStep as any).multiple !== undefined ? (currentStep as any).multiple : true, // Default to multiple if not specified
-                        defaultValue: defaultValue
-                    };
+            ]);
+        } catch (error: any) {
+            // Non-critical - never fail the chat turn because the transcript could not be written
+            console.error("[recordTranscript] Error:", error);
+        }
+    }
+
+    /**
+     * GET /api/chat/history?projectId=&before=&limit=
+     * Returns a page of the transcript (most recent page by default) in chronological order
+     */
+    private async handleHistoryRequest(url: URL): Promise<Response> {
+        try {
+            const requestedProjectId = url.searchParams.get("projectId");
+            const projectId = requestedProjectId || await this.projects.getActiveProjectId();
+            const project = projectId ? await this.projects.get(projectId) : undefined;
+            if (!project) {
+                return this.jsonResponse({ error: "Project not found" }, 404);
+            }
+
+            const before = parseInt(url.searchParams.get("before") || "") || undefined;
+            const limit = parseInt(url.searchParams.get("limit") || "") || undefined;
+            const page = await this.transcript.page(project.id, { before, limit });
+
+            return this.jsonResponse({
+                project,
+                entries: page.entries,
+                nextBefore: page.nextBefore
+            });
+        } catch (error: any) {
+            console.error("[handleHistoryRequest] Error:", error);
+            return this.jsonResponse({ error: error.message }, 500);
+        }
+    }
+
+    // ==================== PROJECT HANDLERS ====================
+
+    /**
+     * Project management endpoints
+     * GET    /api/projects               - list projects (?includeArchived=true)
+     * POST   /api/projects               - create and switch to a new project
+     * PATCH  /api/projects/:id           - rename a project
+     * POST   /api/projects/:id/activate  - switch to a project
+     * POST   /api/projects/:id/archive   - archive a project
+     */
+    private async handleProjectsRequest(request: Request, url: URL): Promise<Response> {
+        try {
+            const [, , , projectId, action] = url.pathname.split("/"); // ["", "api", "projects", id?, action?]
+
+            if (!projectId) {
+                if (request.method === "GET") {
+                    const includeArchived = url.searchParams.get("includeArchived") === "true";
+                    return this.jsonResponse({
+                        projects: await this.projects.list(includeArchived),
+                        activeProjectId: await this.projects.getActiveProjectId() || null
+                    });
+                }
+                if (request.method === "POST") {
+                    const body = await this.parseJson<{ name?: string }>(request);
+                    const project = await this.projects.create(body.name);
+                    await this.projects.setActive(project.id);
+                    return this.jsonResponse({ project }, 201);
+                }
+                return this.jsonResponse({ error: "Method not allowed" }, 405);
+            }
+
+            const project = await this.projects.get(projectId);
+            if (!project) {
+                return this.jsonResponse({ error: "Project not found" }, 404);
+            }
+
+            if (!action && request.method === "PATCH") {
+                const body = await this.parseJson<{ name?: string }>(request);
+                if (!body.name || !body.name.trim()) {
+                    return this.jsonResponse({ error: "name is required" }, 400);
                 }
-                // If questionToShow >= steps.length, all questions are answered, so don't set currentQuestion
+                return this.jsonResponse({ project: await this.projects.rename(projectId, body.name) });
             }
 
-            return this.jsonResponse(response);
+            if (action === "activate" && request.method === "POST") {
+                if (project.status === "archived") {
+                    return this.jsonResponse({ error: "Archived projects cannot be activated" }, 409);
+                }
+                await this.projects.setActive(projectId);
+                return this.jsonResponse({ project, activeProjectId: projectId });
+            }
 
+            if (action === "archive" && request.method === "POST") {
+                return this.jsonResponse({ project: await this.projects.archive(projectId, { archivedReason: "manual" }) });
+            }
+
+            return this.jsonResponse({ error: "API endpoint not found" }, 404);
         } catch (error: any) {
-            console.error("[PackagehaSession] Error:", error);
-            return this.jsonResponse({ 
-                reply: "I encountered an error. Please try again or type 'reset' to start over." 
-            }, 500);
+            console.error("[handleProjectsRequest] Error:", error);
+            return this.jsonResponse({ error: error.message }, 500);
+        }
+    }
+
+    // ==================== PROJECT API ====================
+
+    /**
+     * Typed endpoints for the current project - the same turns as chat commands, without magic messages
+     * GET  /api/project                  - state: flowState, currentQuestion, answers and package (?projectId=&locale=)
+     * GET  /api/project/answers/:stepId  - one question with its current answer
+     * PUT  /api/project/answers/:stepId  - { value }: answer the open question, or change an earlier answer
+     * POST /api/project/package          - { packageId } | { variantId } | { custom, customDimensions? } | { search }
+     * POST /api/project/quote            - create or regenerate the draft order
+     * POST /api/project/back, /undo      - navigation
+     * Changes reply with the /api/chat payload and accept projectId, locale and flow in the body
+     */
+    private async handleProjectApiRequest(request: Request, url: URL): Promise<Response> {
+        try {
+            const [, , , resource, stepId, ...rest] = url.pathname.split("/"); // ["", "api", "project", resource?, stepId?]
+            const questionId = stepId ? decodeURIComponent(stepId) : undefined;
+            if (rest.length > 0 || (questionId && resource !== "answers")) {
+                return this.jsonResponse({ error: "API endpoint not found" }, 404);
+            }
+
+            if (request.method === "GET") {
+                if (resource && resource !== "answers") {
+                    return this.jsonResponse({ error: "API endpoint not found" }, 404);
+                }
+                const locale = url.searchParams.get("locale");
+                const result = await this.enqueueTurn(() => this.describeProject(
+                    url.searchParams.get("projectId"),
+                    isSupportedLocale(locale) ? locale : null,
+                    questionId
+                ));
+                return this.jsonResponse(result.payload, result.status);
+            }
+
+            const body = await this.parseJson<RequestBody & PackageSelection & { value?: string | number }>(request);
+            const turn: RequestBody = {
+                projectId: body.projectId,
+                locale: body.locale,
+                flow: body.flow,
+                idempotencyKey: request.headers.get(IDEMPOTENCY_HEADER_NAME) || undefined,
+            };
+
+            if (resource === "answers" && questionId && request.method === "PUT") {
+                const value = typeof body.value === "number" ? String(body.value) : body.value;
+                if (typeof value !== "string" || !value.trim()) {
+                    return this.jsonResponse({ error: "value is required" }, 400);
+                }
+                turn.answer = { stepId: questionId, value };
+            } else if (resource === "package" && request.method === "POST") {
+                const selection: PackageSelection = {
+                    packageId: body.packageId,
+                    variantId: body.variantId,
+                    custom: body.custom,
+                    customDimensions: body.customDimensions,
+                    search: body.search,
+                };
+                if (!selection.packageId && !selection.variantId && !selection.custom && !selection.customDimensions && !selection.search?.trim()) {
+                    return this.jsonResponse({ error: "One of packageId, variantId, custom, customDimensions or search is required" }, 400);
+                }
+                turn.packageSelection = selection;
+            } else if (resource === "quote" && request.method === "POST") {
+                turn.regenerateOrder = true;
+            } else if (resource === "back" && request.method === "POST") {
+                turn.back = true;
+            } else if (resource === "undo" && request.method === "POST") {
+                turn.undo = true;
+            } else {
+                return this.jsonResponse({ error: "API endpoint not found" }, 404);
+            }
+
+            const limit = await consumeRateLimit(this.env, this.rateLimitKey, "chat");
+            if (!limit.allowed) {
+                return rateLimitResponse(limit, "chat");
+            }
+
+            const result = await this.runChatTurn(turn);
+            return this.jsonResponse(result.payload, result.status);
+        } catch (error: any) {
+            console.error("[handleProjectApiRequest] Error:", error);
+            return this.jsonResponse({ error: error.message }, 500);
+        }
+    }
+
+    /**
+     * Read-only project state (no turn is recorded), or one question when questionId is given
+     */
+    private async describeProject(projectId: string | null, locale: Locale | null, questionId?: string): Promise<{ payload: any; status?: number }> {
+        const id = projectId || await this.projects.getActiveProjectId();
+        const project = id ? await this.projects.get(id) : undefined;
+        if (!project) {
+            return { payload: { error: "Project not found" }, status: 404 };
+        }
+        this.project = project;
+        await this.useProjectCharter(locale);
+        const memory = await this.loadMemory();
+
+        if (questionId) {
+            const flow = this.flows[memory.flow];
+            const found = flow ? findQuestionStage(flow, this.charter, questionId) : null;
+            if (!found) {
+                return { payload: { error: "Question not found" }, status: 404 };
+            }
+            return {
+                payload: {
+                    question: this.questionPayload(found.step, memory.clipboard[questionId] || null),
+                    answer: memory.answers?.[questionId] || null,
+                    flowState: this.buildFlowState(memory)
+                }
+            };
+        }
+
+        const hasPackage = !!memory.packageId || memory.clipboard['custom_package'] === 'true';
+        return {
+            payload: {
+                project,
+                flowState: this.buildFlowState(memory),
+                currentQuestion: this.buildCurrentQuestion(memory) || null,
+                answers: Object.fromEntries(Object.entries(memory.clipboard).filter(([key]) => !key.startsWith("_"))),
+                typedAnswers: memory.answers || {},
+                package: hasPackage ? {
+                    id: memory.packageId || null,
+                    name: memory.packageName || null,
+                    variantId: memory.selectedVariantId || null,
+                    variantName: memory.selectedVariantName || null,
+                    custom: !memory.packageId
+                } : null,
+                variants: memory.variants?.map(v => ({ id: v.id, title: v.title, price: v.price, recommended: v.id === memory.fitVariantId })) || null,
+                productMatches: memory.pendingMatches || null,
+                draftOrderId: memory.quotedDraftOrderId || null
+            }
+        };
+    }
+
+    /**
+     * Ready a typed answer to run as the turn's message: the open question is answered as usual,
+     * any other question the flow asks is edited in place. False when the flow doesn't ask it
+     */
+    private async prepareAnswer(memory: Memory, stepId: string): Promise<boolean> {
+        const flow = this.flows[memory.flow];
+        const found = flow ? findQuestionStage(flow, this.charter, stepId) : null;
+        if (!found) {
+            return false;
+        }
+        if (memory.step === "start") {
+            await runFlow(flow, this.flowContext(memory), ""); // Enter the first stage, so its first question is open
+        }
+
+        const stage = findStage(flow, memory.step);
+        const steps = stage ? getStageSteps(stage, this.charter) : null;
+        const open = steps ? steps[nextOpenStepIndex(steps, memory.clipboard, memory.questionIndex)] : undefined;
+        const isOpenQuestion = memory.editing ? memory.editing.questionId === stepId : open?.id === stepId;
+        if (!isOpenQuestion) {
+            this.openForEditing(memory, found);
+        }
+        return true;
+    }
+
+    /**
+     * Typed package choice - continues like the matching chat message ("3", a variant name, "custom package: ...", "edit package: ...")
+     */
+    private async applyPackageSelection(memory: Memory, selection: PackageSelection): Promise<FlowResult | { status: number; error: MessageKey }> {
+        if (!findStage(this.flows[memory.flow], "select_package")) {
+            return { status: 409, error: "packageSelectionUnavailable" };
+        }
+
+        if (selection.variantId) {
+            const variant = memory.variants?.find(v => v.id === selection.variantId);
+            if (!variant) {
+                return { status: 404, error: "variantNotFound" };
+            }
+            memory.selectedVariantId = variant.id;
+            memory.selectedVariantName = variant.title === "Default Title" ? "Default" : variant.title;
+            const result = await this.completePackageSelection(memory);
+            return { ...result, reply: `${t(this.locale, "variantSelected", { name: variant.title })}\n\n${result.reply}` };
+        }
+
+        if (selection.custom || selection.customDimensions) {
+            if (memory.flow === "sample_request") {
+                return { status: 409, error: "sampleNoCustomPackage" };
+            }
+            this.clearPackageSelection(memory);
+            return await this.selectCustomPackage(memory, selection.customDimensions);
+        }
+
+        if (selection.packageId) {
+            const packageProduct = (await this.getCachedProducts()).find((p: any) => p.id === selection.packageId);
+            if (!packageProduct) {
+                return { status: 404, error: "packageNotFound" };
+            }
+            this.clearPackageSelection(memory);
+            return await this.selectPackage(memory, packageProduct, this.charter);
+        }
+
+        this.clearPackageSelection(memory);
+        memory.step = "select_package_discovery";
+        memory.questionIndex = 0;
+        return await this.handlePackageSelection(selection.search || "", memory);
+    }
+
+    // ==================== FLOW HANDLERS ====================
+
+    /**
+     * Flow definitions by AgentFlow (stages are run by the flow engine)
+     */
+    private buildFlows(): Record<AgentFlow, FlowDefinition> {
+        const quote = (ctx: FlowContext) => this.createProjectQuote(ctx.memory);
+        const sampleOrder = (ctx: FlowContext) => this.createSampleOrder(ctx.memory);
+        return {
+            // product_details -> select_package (-> select_package_variant) -> select_package_specs -> fulfillment_specs -> launch_kit -> draft_order
+            direct_sales: {
+                id: "direct_sales",
+                start: "product_details",
+                intercept: (ctx, message) => this.interceptDirectSalesMessage(message, ctx.memory),
+                stages: [
+                    { id: "product_details", phase: "productDetails", next: "select_package" },
+                    {
+                        id: "select_package",
+                        aliases: ["select_package_discovery"],
+                        onEnter: ctx => this.autoSearchPackages(ctx.memory),
+                        handle: (ctx, message) => this.handlePackageSelection(message, ctx.memory),
+                        next: "select_package_specs",
+                    },
+                    {
+                        id: "select_package_variant",
+                        handle: (ctx, message) => this.handleVariantSelection(message, ctx.memory, ctx.charter),
+                        next: "select_package_specs",
+                    },
+                    { id: "select_package_specs", phase: "packageSpecs", next: "fulfillment_specs" },
+                    { id: "fulfillment_specs", phase: "fulfillmentSpecs", next: "launch_kit" },
+                    { id: "launch_kit", phase: "launchKit", next: "draft_order" },
+                    { id: "draft_order", onEnter: quote, handle: quote },
+                ],
+            },
+            // Services only: select_services -> service_details -> draft_order
+            launch_kit: {
+                id: "launch_kit",
+                start: "select_services",
+                stages: [
+                    { id: "select_services", handle: (ctx, message) => this.handleServiceSelection(message, ctx.memory) },
+                    // The launch kit questions of direct sales; service_selection is already answered, so it is skipped
+                    { id: "service_details", phase: "launchKit", next: "draft_order" },
+                    { id: "draft_order", onEnter: quote, handle: quote },
+                ],
+            },
+            // Repeat a past order: select_order -> fulfillment_specs (original answers offered) -> draft_order
+            reorder: {
+                id: "reorder",
+                start: "select_order",
+                stages: [
+                    { id: "select_order", handle: (ctx, message) => this.handleReorderSelection(message, ctx.memory) },
+                    { id: "fulfillment_specs", phase: "fulfillmentSpecs", next: "draft_order" },
+                    { id: "draft_order", onEnter: quote, handle: quote },
+                ],
+            },
+            // One unit before a full order: select_package (-> select_package_variant) -> sample_shipping -> draft_order
+            sample_request: {
+                id: "sample_request",
+                start: "select_package",
+                stages: [
+                    {
+                        id: "select_package",
+                        aliases: ["select_package_discovery"],
+                        onEnter: ctx => this.startSampleRequest(ctx.memory),
+                        handle: (ctx, message) => this.handlePackageSelection(message, ctx.memory),
+                        next: "sample_shipping",
+                    },
+                    {
+                        id: "select_package_variant",
+                        handle: (ctx, message) => this.handleVariantSelection(message, ctx.memory, ctx.charter),
+                        next: "sample_shipping",
+                    },
+                    // No quantity or timeline - just where to send it
+                    { id: "sample_shipping", phase: "fulfillmentSpecs", stepIds: ["shipping_address"], next: "draft_order" },
+                    { id: "draft_order", onEnter: sampleOrder, handle: sampleOrder },
+                ],
+            },
+        };
+    }
+
+    private flowContext(memory: Memory): FlowContext {
+        return {
+            memory,
+            charter: this.charter,
+            locale: this.locale,
+            acceptAnswer: (step, message) => this.acceptAnswer(memory, step, message),
+            saveMemory: () => this.saveMemory(memory),
+            askQuestion: step => this.askQuestion(memory, step),
+            onAnswerEdited: step => this.reviewEditedAnswer(memory, step),
+        };
+    }
+
+    /**
+     * Revisit the decisions an edited answer `affects` (see CharterStep.affects) - returns a note for the customer, or null
+     */
+    private async reviewEditedAnswer(memory: Memory, step: CharterStep): Promise<string | null> {
+        const affects = step.affects || [];
+        const notes: string[] = [];
+        const canSearch = !!memory.packageId && !!findStage(this.flows[memory.flow], "select_package");
+        const packageName = memory.selectedVariantName && memory.selectedVariantName !== "Default"
+            ? `${memory.packageName} - ${memory.selectedVariantName}`
+            : memory.packageName || "";
+
+        const fits = affects.includes("package_fit")
+            ? checkPackageFit(memory, await this.state.storage.get<PackageIndex>(PACKAGE_INDEX_KEY), getPaddingCm(this.env.PACKAGE_FIT_PADDING_CM))
+            : null;
+        if (fits === false && memory.clipboard['custom_package'] === 'true') {
+            notes.push(t(this.locale, "customPackageNoLongerFits"));
+        } else if (fits === false && canSearch) {
+            notes.push(t(this.locale, "packageNoLongerFits", { package: packageName }));
+            memory.pendingRediscovery = true;
+        } else if (canSearch && (affects.includes("package_choice") || (affects.includes("package_fit") && fits === null))) {
+            // The package was found for the old answer (or its size is unknown) - a new search may pick differently
+            notes.push(t(this.locale, "offerRediscovery", { package: packageName }));
+            memory.pendingRediscovery = true;
+        }
+
+        if (affects.includes("quote") && memory.quotedDraftOrderId) {
+            notes.push(t(this.locale, "quoteOutdated"));
+            memory.quoteOutdated = true;
+        }
+
+        if (notes.length > 0) {
+            console.log("[reviewEditedAnswer]", step.id, "affects", affects.join(", "), "- fit:", fits);
+        }
+        return notes.length > 0 ? notes.join("\n\n") : null;
+    }
+
+    /**
+     * Drop the selected package and search again with the current answers (accepted after an edit)
+     */
+    private rediscoverPackage(memory: Memory): Promise<FlowResult> {
+        console.log("[rediscoverPackage] Searching again instead of", memory.packageName);
+        this.clearPackageSelection(memory);
+        return this.enterFlowStage(memory, "select_package");
+    }
+
+    /**
+     * Question text, offering the original answer on a reorder
+     */
+    private askQuestion(memory: Memory, step: CharterStep): string {
+        const previous = memory.previousAnswers?.[step.id];
+        return previous ? t(this.locale, "previousAnswer", { question: step.question, answer: previous }) : step.question;
+    }
+
+    /**
+     * Point the consultation at a question so the next answer changes it
+     * The position to return to is kept in memory.editing (the original one, when already editing another answer)
+     */
+    private openForEditing(memory: Memory, found: { stage: FlowStage; step: CharterStep }): void {
+        memory.editing = memory.editing
+            ? { ...memory.editing, questionId: found.step.id }
+            : { questionId: found.step.id, returnStep: memory.step, returnQuestionIndex: memory.questionIndex };
+        delete memory.pendingAnswer; // Any unconfirmed answer is dropped
+        memory.step = found.stage.id; // For UI activation; questionIndex stays at the current position
+    }
+
+    /**
+     * Enter a stage of the current flow (for handlers that finish their own stage, e.g. package selection)
+     */
+    private enterFlowStage(memory: Memory, stageId: string): Promise<FlowResult> {
+        return enterStage(this.flows[memory.flow], this.flowContext(memory), stageId);
+    }
+
+    /**
+     * Leave package selection for the stage the current flow continues with (package specs in direct sales)
+     */
+    private completePackageSelection(memory: Memory): Promise<FlowResult> {
+        const flow = this.flows[memory.flow];
+        const stage = findStage(flow, "select_package");
+        if (!stage) {
+            console.error("[completePackageSelection] Error: flow has no package selection", flow.id);
+            return Promise.resolve({ reply: t(this.locale, "genericError") });
+        }
+        return completeStage(flow, stage, this.flowContext(memory));
+    }
+
+    /**
+     * Opening reply in the state back/undo restored: the match list or variant choice for package selection,
+     * the answer being edited, otherwise whatever the stage asks next
+     */
+    private async replyAfterNavigation(memory: Memory, command: NavigationCommand): Promise<FlowResult> {
+        const prefix = t(this.locale, command === "undo" ? "undone" : "wentBack");
+        const flow = this.flows[memory.flow];
+        let result: FlowResult;
+
+        const editing = memory.editing ? findQuestionStage(flow, this.charter, memory.editing.questionId) : null;
+        if (editing) {
+            result = { reply: this.askQuestion(memory, editing.step) };
+        } else if (memory.step === "select_package_variant" && memory.variants) {
+            result = { reply: this.askForVariant(memory) };
+        } else if (!memory.packageId && memory.pendingMatches?.length) {
+            // Back from package specs lands on the match list the package was picked from
+            result = { reply: t(this.locale, "matchesFound", { count: memory.pendingMatches.length }), productMatches: memory.pendingMatches };
+        } else {
+            result = await runFlow(flow, this.flowContext(memory), "");
         }
+        return { ...result, reply: `${prefix}\n\n${result.reply}` };
     }
 
-    // ==================== FLOW HANDLERS ====================
-
     /**
-     * Direct Sales Flow - New structure with multiple steps
-     * Steps: product_details -> select_package -> fulfillment_specs -> launch_kit -> draft_order
+     * Direct sales messages that jump the flow regardless of the current stage:
+     * product info sent as "Product: ..." and package edits ("edit package: ...")
      */
-    private async handleDirectSalesFlow(
-        userMessage: string, 
-        memory: Memory
-    ): Promise<{ reply: string; memoryReset?: boolean; draftOrder?: any; productMatches?: any[]; isAutoSearch?: boolean }> {
+    private async interceptDirectSalesMessage(userMessage: string, memory: Memory): Promise<FlowResult | null> {
         // Extract product info from message (Product: and Product Dimensions:)
         // This is for the new dimension-based matching system (NO package requirements)
         const productMatch = userMessage.match(/Product:\s*(.+?)(?:\n|$)/i);
         const dimensionsMatch = userMessage.match(/Product Dimensions:\s*(.+?)(?:\n|$)/i);
         
         if (productMatch || dimensionsMatch) {
-            console.log("[handleDirectSalesFlow] Product info detected in message - triggering dimension-based matching");
+            console.log("[interceptDirectSalesMessage] Product info detected in message - triggering dimension-based matching");
             
             // Extract product description
             if (productMatch) {
                 memory.clipboard['product_description'] = productMatch[1].trim();
-                console.log("[handleDirectSalesFlow] Extracted product description:", memory.clipboard['product_description']);
+                console.log("[interceptDirectSalesMessage] Extracted product description:", memory.clipboard['product_description']);
             }
             
             // Extract product dimensions
             if (dimensionsMatch) {
                 memory.clipboard['product_dimensions'] = dimensionsMatch[1].trim();
-                console.log("[handleDirectSalesFlow] Extracted product dimensions:", memory.clipboard['product_dimensions']);
+                const parsed = parseAnswerAs("dimensions", dimensionsMatch[1]);
+                if (parsed.ok) {
+                    memory.answers = { ...memory.answers, product_dimensions: parsed.answer };
+                }
+                console.log("[interceptDirectSalesMessage] Extracted product dimensions:", memory.clipboard['product_dimensions']);
             }
             
             // Mark as auto-search so handleDiscovery uses dimension-based matching
@@ -482,15 +1604,15 @@ export class PackagehaSession {
         let searchQuery = userMessage;
         if (isEditMessage) {
             searchQuery = userMessage.replace(/^edit package:\s*/i, "").trim();
-            console.log("[handleDirectSalesFlow] Extracted search query from edit message:", searchQuery || "(empty - edit mode only)");
+            console.log("[interceptDirectSalesMessage] Extracted search query from edit message:", searchQuery || "(empty - edit mode only)");
         }
         
         if (isPackageEditRequest) {
-            console.log("[handleDirectSalesFlow] Package edit request detected!");
-            console.log("[handleDirectSalesFlow] Current step:", memory.step);
-            console.log("[handleDirectSalesFlow] Current packageId:", memory.packageId);
-            console.log("[handleDirectSalesFlow] User message:", userMessage);
-            console.log("[handleDirectSalesFlow] Resetting to package selection");
+            console.log("[interceptDirectSalesMessage] Package edit request detected!");
+            console.log("[interceptDirectSalesMessage] Current step:", memory.step);
+            console.log("[interceptDirectSalesMessage] Current packageId:", memory.packageId);
+            console.log("[interceptDirectSalesMessage] User message:", userMessage);
+            console.log("[interceptDirectSalesMessage] Resetting to package selection");
             
             // Preserve package specs
             const preservedPackageSpecs: { [key: string]: string } = {};
@@ -498,7 +1620,7 @@ export class PackagehaSession {
                 if (memory.clipboard['material']) preservedPackageSpecs['material'] = memory.clipboard['material'];
                 if (memory.clipboard['print']) preservedPackageSpecs['print'] = memory.clipboard['print'];
                 if (memory.clipboard['dimensions']) preservedPackageSpecs['dimensions'] = memory.clipboard['dimensions'];
-                console.log("[handleDirectSalesFlow] Preserving package specs:", preservedPackageSpecs);
+                console.log("[interceptDirectSalesMessage] Preserving package specs:", preservedPackageSpecs);
             }
             
             // Clear package selection
@@ -507,6 +1629,7 @@ export class PackagehaSession {
             memory.packageName = undefined;
             memory.selectedVariantName = undefined;
             memory.variants = undefined;
+            memory.fitVariantId = undefined;
             
             // Restore preserved package specs
             Object.assign(memory.clipboard, preservedPackageSpecs);
@@ -515,98 +1638,20 @@ export class PackagehaSession {
             memory.step = "select_package_discovery";
             memory.questionIndex = 0;
             
-            console.log("[handleDirectSalesFlow] After reset - step:", memory.step, "packageId:", memory.packageId);
+            console.log("[interceptDirectSalesMessage] After reset - step:", memory.step, "packageId:", memory.packageId);
             
             // If searchQuery is empty (just "edit package:"), return without triggering a search
             // This allows the frontend to show existing matches without triggering a new search
             if (!searchQuery || searchQuery.trim() === '') {
-                console.log("[handleDirectSalesFlow] Empty edit query - returning prompt without search");
-                return { reply: "What package are you looking for?" };
+                console.log("[interceptDirectSalesMessage] Empty edit query - returning prompt without search");
+                return { reply: t(this.locale, "askPackage") };
             }
             
             // Now handle as package selection with the search query
             return await this.handlePackageSelection(searchQuery, memory);
         }
         
-        switch (memory.step) {
-            case "start":
-                // Start with product details step
-                memory.step = "product_details";
-                memory.questionIndex = 0;
-                if (!SALES_CHARTER.productDetails) {
-                    return { reply: "Error: Product details configuration missing." };
-                }
-                return { reply: SALES_CHARTER.productDetails.steps[0].question };
-                
-            case "product_details":
-                return await this.handleConsultationPhase(
-                    userMessage, 
-                    memory, 
-                    SALES_CHARTER.productDetails!,
-                    "select_package"
-                );
-                
-            case "select_package":
-            case "select_package_discovery":
-                // Handle package discovery/search
-                return await this.handlePackageSelection(userMessage, memory);
-                
-            case "select_package_variant":
-                // Handle variant selection
-                return await this.handleVariantSelection(userMessage, memory, SALES_CHARTER);
-                
-            case "select_package_specs":
-                // Handle package specifications (material, dimensions, print)
-                return await this.handleConsultationPhase(
-                    userMessage,
-                    memory,
-                    SALES_CHARTER.packageSpecs!,
-                    "fulfillment_specs"
-                );
-                
-            case "fulfillment_specs":
-                return await this.handleConsultationPhase(
-                    userMessage,
-                    memory,
-                    SALES_CHARTER.fulfillmentSpecs!,
-                    "launch_kit"
-                );
-                
-            case "launch_kit":
-                return await this.handleConsultationPhase(
-                    userMessage,
-                    memory,
-                    SALES_CHARTER.launchKit!,
-                    "draft_order"
-                );
-                
-            case "draft_order":
-                return await this.createProjectQuote(memory);
-                
-            default:
-                memory.step = "start";
-                return await this.handleDirectSalesFlow(userMessage, memory);
-        }
-    }
-
-    /**
-     * Launch Kit Flow
-     */
-    private async handleLaunchKitFlow(
-        userMessage: string,
-        memory: Memory
-    ): Promise<{ reply: string; memoryReset?: boolean }> {
-        switch (memory.step) {
-            case "start":
-                return { reply: await this.handleLaunchKitStart(userMessage, memory) };
-            case "select_services":
-                return await this.handleLaunchKitServiceSelection(userMessage, memory);
-            case "consultation":
-                return await this.handleConsultation(userMessage, memory, LAUNCH_KIT_CHARTER);
-            default:
-                memory.step = "start";
-                return { reply: await this.handleLaunchKitStart(userMessage, memory) };
-        }
+        return null;
     }
 
     // ==================== SHARED HANDLERS ====================
@@ -638,9 +1683,12 @@ export class PackagehaSession {
 
             console.log(`[getCachedProducts] Fetched ${products.length} total products`);
 
-            // Cache products
+            // Cache products, with the package index built from the same catalog and the last metafields read -
+            // reading them again takes a page per 10 products, so it runs after the turn
             await this.state.storage.put(cacheKey, products);
+            await this.state.storage.put(PACKAGE_INDEX_KEY, await this.indexPackages(products));
             await this.state.storage.put(cacheTimestampKey, Date.now());
+            this.state.waitUntil(this.refreshPackageMetafields(products));
 
             return products;
         } catch (error: any) {
@@ -656,110 +1704,242 @@ export class PackagehaSession {
     }
 
     /**
-     * Parse dimensions from text (e.g., "20x15x10 cm" or "8x6x4 inches")
-     * Returns {length, width, height} in cm, or null if parsing fails
+     * Package index for a freshly fetched catalog, from the stored metafields (none until the first read completes),
+     * the enrichment table and variant options
      */
-    private parseDimensions(dimensionText: string): { length: number; width: number; height: number } | null {
-        if (!dimensionText) return null;
-        
-        // Extract numbers and units
-        const match = dimensionText.match(/(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*(cm|inches?|in)?/i);
-        if (!match) return null;
-        
-        let length = parseFloat(match[1]);
-        let width = parseFloat(match[2]);
-        let height = parseFloat(match[3]);
-        const unit = (match[4] || '').toLowerCase();
-        
-        // Convert inches to cm if needed
-        if (unit.includes('inch') || unit === 'in') {
-            length *= 2.54;
-            width *= 2.54;
-            height *= 2.54;
+    private async indexPackages(products: ShopifyProduct[], metafields?: PackagingMetafields): Promise<PackageIndex> {
+        const stored = metafields || await this.state.storage.get<PackagingMetafields>(PACKAGE_METAFIELDS_KEY);
+        return buildPackageIndex(products, stored || { products: {}, variants: {} }, await loadPackageEnrichment(this.env.PACKAGE_ENRICHMENT));
+    }
+
+    /**
+     * Read the packaging metafields again and rebuild the package index with them - run after the turn that refreshed
+     * the catalog. A failed read keeps the previous metafields
+     */
+    private async refreshPackageMetafields(products: ShopifyProduct[]): Promise<void> {
+        try {
+            const metafields = await getPackagingMetafields(this.env.SHOP_URL, this.env.SHOPIFY_ACCESS_TOKEN, PACKAGING_NAMESPACE);
+            await this.state.storage.put(PACKAGE_METAFIELDS_KEY, metafields);
+            await this.state.storage.put(PACKAGE_INDEX_KEY, await this.indexPackages(products, metafields));
+        } catch (error: any) {
+            console.error("[refreshPackageMetafields] Error:", error);
         }
-        
-        // Sort dimensions: length >= width >= height
-        const dims = [length, width, height].sort((a, b) => b - a);
-        
+    }
+
+    /**
+     * Package index of the cached catalog (options only, for a cache stored before the index existed)
+     */
+    private async getPackageIndex(products: any[]): Promise<PackageIndex> {
+        const stored = await this.state.storage.get<PackageIndex>(PACKAGE_INDEX_KEY);
+        return stored || buildPackageIndex(products, { products: {}, variants: {} });
+    }
+
+    /**
+     * What the product needs from a package: its size (plus padding), weight and, when fragile, protection
+     */
+    private getPackageNeeds(memory: Memory): PackageNeeds {
         return {
-            length: dims[0],
-            width: dims[1],
-            height: dims[2]
+            dimensions: getTypedAnswer(memory, "product_dimensions", "dimensions")?.cm || null,
+            paddingCm: getPaddingCm(this.env.PACKAGE_FIT_PADDING_CM),
+            weightGrams: getTypedAnswer(memory, "product_weight", "weight")?.grams ?? null,
+            protection: protectionNeed(memory.clipboard["fragility"]),
         };
     }
 
     /**
-     * Check if package dimensions can fit product dimensions
-     * Package must be bigger in all dimensions
+     * Check of every catalog package against the product's needs, in catalog order - null when none are known yet
      */
-    private canPackageFitProduct(packageDims: { length: number; width: number; height: number } | null, 
-                                  productDims: { length: number; width: number; height: number } | null): boolean {
-        if (!packageDims || !productDims) return true; // If dimensions unknown, allow match
-        
-        // Package must be bigger in all dimensions (with small tolerance for measurement errors)
-        const tolerance = 0.5; // 0.5cm tolerance
-        return packageDims.length >= (productDims.length - tolerance) &&
-               packageDims.width >= (productDims.width - tolerance) &&
-               packageDims.height >= (productDims.height - tolerance);
+    private checkCatalog(products: any[], packageIndex: PackageIndex, needs: PackageNeeds): PackageCheck[] | null {
+        if (!needs.dimensions && needs.weightGrams === null && !needs.protection) {
+            return null;
+        }
+        const checks = products.map(product => checkPackage(packageIndex[product.id], needs));
+        const excluded = (failure: ConstraintFailure) => checks.filter(check => check.status === "excluded" && check.failures.includes(failure)).length;
+        console.log(`[checkCatalog] ${checks.filter(check => check.status === "candidate").length} candidates; excluded: ${excluded("too_small")} too small, ${excluded("too_heavy")} too weak, ${excluded("not_protective")} not protective`);
+        return checks;
     }
 
     /**
-     * Calculate keyword match score between product description and package description
-     * Returns score from 0 to 1
+     * Run the checks that don't need the model. Packages that fail a constraint are dropped; over-budget ones
+     * are hidden while anything in budget is left, and otherwise shown so the customer still has options
      */
-    private calculateKeywordMatchScore(productDescription: string, packageDescription: string): number {
-        if (!productDescription || !packageDescription) return 0;
-        
-        // Normalize text
-        const normalize = (text: string) => text.toLowerCase()
-            .replace(/[^\w\s]/g, ' ')
-            .split(/\s+/)
-            .filter(w => w.length > 2); // Filter out very short words
-        
-        const productWords = new Set(normalize(productDescription));
-        const packageWords = new Set(normalize(packageDescription));
-        
-        if (productWords.size === 0) return 0;
-        
-        // Count matching words
-        let matches = 0;
-        for (const word of productWords) {
-            if (packageWords.has(word)) {
-                matches++;
+    private screenPackages(products: any[], packageIndex: PackageIndex, needs: PackageNeeds, memory: Memory): PackageScreening {
+        const checks = this.checkCatalog(products, packageIndex, needs);
+        const budget = getUnitBudget(memory);
+        const prices = products.map((product, index) => {
+            const check = checks?.[index];
+            return checkPrice(product, check?.status === "candidate" ? check.variantId : null, budget);
+        });
+
+        const candidates = products.map((_, index) => index).filter(index => checks?.[index].status !== "excluded");
+        const inBudget = candidates.filter(index => prices[index].status !== "over");
+        const shown = inBudget.length > 0 ? inBudget : candidates;
+        if (budget) {
+            console.log(`[screenPackages] Budget ${formatUnitBudget(budget)}: ${inBudget.length} of ${candidates.length} candidates in budget`);
+        }
+        return {
+            shown: new Set(shown),
+            checks,
+            prices,
+            budget,
+            overBudgetOnly: candidates.length > 0 && inBudget.length === 0,
+            maxUnitCost: Math.max(0, ...shown.map(index => prices[index].unitCost ?? 0)),
+        };
+    }
+
+    /**
+     * Rank a match the same way whether the model scored it or not (relevance null): each check's outcome
+     * goes into the reason, and the signals are combined by the ranking weights, with the breakdown on the match
+     */
+    private rankMatch<T extends { reason: string }>(match: T, product: any, index: number, screening: PackageScreening, query: string, relevance: number | null): T & RankedMatch {
+        const check = screening.checks?.[index];
+        const price = screening.prices[index];
+        const notes: string[] = [];
+        const extra: Partial<RankedMatch> = {};
+        if (check?.status === "candidate") {
+            if (check.fit === "ok") {
+                notes.push(t(this.locale, "fitMargin", { margin: check.marginCm!, variant: check.variantTitle || "" }));
+                extra.fitMarginCm = check.marginCm;
+                extra.fitVariantId = check.variantId ?? undefined;
+            } else if (check.fit === "unknown") {
+                notes.push(t(this.locale, "fitUnknown"));
+                extra.fitMarginCm = null;
+            }
+            if (check.load) {
+                const load = check.maxLoadGrams !== null ? formatLoad(check.maxLoadGrams) : "";
+                notes.push(t(this.locale, check.load === "ok" ? "loadOk" : check.load === "near_limit" ? "loadNearLimit" : "loadUnknown", { load }));
+                extra.loadStatus = check.load;
+            }
+            if (check.protection) {
+                notes.push(t(this.locale, check.protection === "ok" ? (check.protectionLevel === "cushioned" ? "protectionCushioned" : "protectionPadded") : check.protection === "below_preferred" ? "protectionLight" : "protectionUnknown"));
+                extra.protectionStatus = check.protection;
             }
         }
-        
-        // Score is ratio of matching words
-        return matches / productWords.size;
+        extra.unitCost = price.unitCost;
+        if (price.status && screening.budget) {
+            const key = price.status === "within" ? "budgetWithin" : price.status === "over" ? "budgetOver" : "budgetUnder";
+            notes.push(t(this.locale, key, { cost: price.unitCost!, budget: formatUnitBudget(screening.budget) }));
+            extra.budgetStatus = price.status;
+        }
+
+        const candidate = check?.status === "candidate" ? check : null;
+        const keywords = calculateKeywordMatchScore(query, packageKeywordText(product));
+        const scores: SignalScores = {
+            relevance,
+            keywords,
+            fit: candidate?.fit ? fitScore(candidate.marginCm) : null,
+            budget: screening.budget ? budgetFitScore(price.unitCost, screening.budget) ?? NEUTRAL_SCORE : null,
+            price: priceScore(price.unitCost, screening.budget, screening.maxUnitCost) ?? NEUTRAL_SCORE,
+        };
+        const scoreBreakdown = rank(scores, this.rankingWeights, candidate?.penalty ?? 0);
+        return {
+            ...match,
+            ...extra,
+            reason: [match.reason, ...notes].join(" - "),
+            fitnessScore: Math.round((relevance ?? keywords) * 100) / 100,
+            priceScore: scoreBreakdown.signals.price.score!,
+            combinedScore: scoreBreakdown.total,
+            scoreBreakdown,
+        };
     }
 
     /**
-     * Calculate price score (lower price = higher score)
-     * Returns score from 0 to 1
+     * Tell the customer when the matches are shown despite all being over budget
      */
-    private calculatePriceScore(price: string | null, maxPrice: number): number {
-        if (!price) return 0.5; // Neutral score if price unknown
-        
-        const priceValue = parseFloat(price);
-        if (isNaN(priceValue) || maxPrice === 0) return 0.5;
-        
-        // Lower price = higher score (inverted)
-        // Normalize to 0-1 range
-        return Math.max(0, 1 - (priceValue / maxPrice));
+    private withBudgetNote(reply: string, screening: PackageScreening): string {
+        if (!screening.overBudgetOnly || !screening.budget) {
+            return reply;
+        }
+        return `${reply}\n\n${t(this.locale, "overBudgetShown", { budget: formatUnitBudget(screening.budget) })}`;
+    }
+
+    /**
+     * Reply when every package was excluded - names the needs that ruled them out
+     */
+    private describeUnmetNeeds(needs: PackageNeeds, checks: PackageCheck[]): string {
+        const failures = new Set(checks.flatMap(check => check.status === "excluded" ? check.failures : []));
+        if (failures.size === 1 && failures.has("too_small")) {
+            return t(this.locale, "noPackageFits", { dimensions: formatDimensions(needs.dimensions!), padding: needs.paddingCm });
+        }
+        const unmet = [
+            failures.has("too_small") ? formatDimensions(needs.dimensions!) : null,
+            failures.has("too_heavy") ? formatLoad(needs.weightGrams!) : null,
+            failures.has("not_protective") ? t(this.locale, "needsCushioning") : null,
+        ].filter(Boolean).join(", ");
+        console.log("[describeUnmetNeeds] No package meets:", unmet);
+        return t(this.locale, "noPackageMeetsNeeds", { needs: unmet });
+    }
+
+    /**
+     * The screened packages most similar to the search (catalog index -> cosine similarity), most similar first
+     * Catalogs up to PACKAGE_RETRIEVAL_TOP_K packages are sent whole; larger ones are narrowed by the embedding index
+     * in the product_cache session, or by keyword overlap with the title, type and tags when that fails (similarity null)
+     * Modes without embeddings (SOVEREIGN, AIR_GAPPED) always use keywords, so no text leaves their provider
+     */
+    private async retrieveCandidates(query: string, products: any[], shown: number[]): Promise<Map<number, number | null>> {
+        const k = getRetrievalTopK(this.env.PACKAGE_RETRIEVAL_TOP_K);
+        if (shown.length <= k) {
+            return new Map(shown.map(index => [index, null]));
+        }
+
+        const indexById = new Map(shown.map(index => [products[index].id as number, index]));
+        const retrieved = this.sovereignSwitch.canEmbed() ? await this.retrieveByEmbeddings(query, k, indexById) : null;
+        if (retrieved) {
+            console.log(`[retrieveCandidates] ${retrieved.size} of ${shown.length} packages retrieved for "${query}"`);
+            return retrieved;
+        }
+
+        const byKeywords = [...shown]
+            .map(index => ({ index, score: calculateKeywordMatchScore(query, packageKeywordText(products[index])) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k);
+        return new Map(byKeywords.map(({ index }) => [index, null]));
+    }
+
+    /**
+     * Top-K from the embedding index in the product_cache session (package id -> catalog index in indexById) - null when it fails
+     */
+    private async retrieveByEmbeddings(query: string, k: number, indexById: Map<number, number>): Promise<Map<number, number | null> | null> {
+        try {
+            const retrievalSession = this.env.PackagehaSession.get(this.env.PackagehaSession.idFromName(RETRIEVAL_SESSION_NAME));
+            const body: RetrievalRequest = { query, k, packageIds: [...indexById.keys()] };
+            const response = await retrievalSession.fetch(new Request(`https://internal${RETRIEVAL_PATH}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            }));
+            if (!response.ok) {
+                throw new Error(`Retrieval error ${response.status}: ${await response.text()}`);
+            }
+            const result = await response.json() as RetrievalResult;
+            const retrieved = new Map<number, number | null>();
+            result.packageIds.forEach((id, i) => {
+                const index = indexById.get(id);
+                if (index !== undefined) retrieved.set(index, result.similarities[i]);
+            });
+            if (retrieved.size > 0) {
+                return retrieved;
+            }
+            console.log("[retrieveByEmbeddings] Embedding index returned no known packages, using keywords");
+        } catch (error: any) {
+            console.error("[retrieveByEmbeddings] Error:", error);
+        }
+        return null;
     }
 
-    private async handleDiscovery(userMessage: string, memory: Memory, charter: any, isAutoSearch: boolean = false): Promise<{ reply: string; productMatches?: any[] }> {
+    private async handleDiscovery(userMessage: string, memory: Memory, charter: any, isAutoSearch: boolean = false): Promise<FlowResult> {
         // Fetch packages from Shopify first (needed for both selection and search)
         let products;
+        this.emit({ type: "status", message: t(this.locale, "statusLoadingCatalog") });
         try {
             products = await this.getCachedProducts();
         } catch (error: any) {
             console.error("[handleDiscovery] Error fetching packages:", error);
-            return { reply: "I'm having trouble accessing the package catalog. Please try again later." };
+            return { reply: t(this.locale, "catalogUnavailable") };
         }
 
         if (products.length === 0) {
-            return { reply: "I'm having trouble accessing the package catalog. Please try again later." };
+            return { reply: t(this.locale, "catalogUnavailable") };
         }
         
         // Check if user is selecting a package by number OR by packageId
@@ -793,53 +1973,17 @@ export class PackagehaSession {
                 }
                 
                 if (packageProduct) {
-
-                    // Store package info (Packageha's package, not client's product)
-                    memory.packageName = packageProduct.title;
-                    memory.packageId = packageProduct.id;
-                    memory.variants = packageProduct.variants.map((v: any) => ({
-                        id: v.id,
-                        title: v.title,
-                        price: v.price,
-                    }));
-                    memory.pendingMatches = undefined; // Clear pending matches
-
-                    // Auto-skip variant selection if only one variant
-                    if (memory.variants.length === 1) {
-                        memory.selectedVariantId = memory.variants[0].id;
-                        // Use "Default" instead of the variant title when auto-selecting single variant
-                        memory.selectedVariantName = "Default";
-                        // For direct_sales flow, use select_package_specs instead of consultation
-                        if (memory.flow === "direct_sales") {
-                            const result = this.transitionToPackageSpecs(memory);
-                            return { reply: `Found **${packageProduct.title}**.\n\n${result.reply}` };
-                        } else {
-                            // Legacy flow
-                            memory.step = "consultation";
-                            memory.questionIndex = 0;
-                            return { reply: `Found **${packageProduct.title}**.\n\nLet's get your project details.\n\n${charter.consultation.steps[0].question}` };
-                        }
-                    }
-
-                    // Ask for variant selection
-                    // For direct_sales flow, use select_package_variant instead of ask_variant
-                    if (memory.flow === "direct_sales") {
-                        memory.step = "select_package_variant";
-                    } else {
-                        memory.step = "ask_variant";
-                    }
-                    const options = memory.variants.map(v => v.title).join(", ");
-                    return { reply: `Found **${packageProduct.title}**.\n\nWhich type are you interested in?\n\nOptions: ${options}` };
+                    return await this.selectPackage(memory, packageProduct, charter);
                 } else {
                     // Invalid selection - return error
                     if (memory.pendingMatches && memory.pendingMatches.length > 0) {
                         const matchesList = memory.pendingMatches.map((m, i) => `${i + 1}. **${m.name}** - ${m.reason}`).join("\n");
                         return {
-                            reply: `Please select a number between 1 and ${memory.pendingMatches.length}:\n\n${matchesList}`,
+                            reply: t(this.locale, "selectMatchNumber", { count: memory.pendingMatches.length, matches: matchesList }),
                             productMatches: memory.pendingMatches
                         };
                     } else {
-                        return { reply: "Invalid selection. Please search for packages again." };
+                        return { reply: t(this.locale, "invalidMatchSelection") };
                     }
                 }
             }
@@ -853,14 +1997,24 @@ export class PackagehaSession {
         
         // Handle greetings locally (save AI cost)
         if (this.isGreeting(userMessage)) {
-            return { reply: "Hello! I'm your packaging consultant. What are you looking for? (e.g., 'Custom Boxes', 'Bags', 'Printing Services')" };
+            return { reply: t(this.locale, "greeting") };
         }
 
         if (products.length === 0) {
-            return { reply: "I'm having trouble accessing the package catalog. Please try again later." };
+            return { reply: t(this.locale, "catalogUnavailable") };
+        }
+
+        // Packages that can't hold the product (turned any way, with padding), can't carry its weight,
+        // or can't take cushioning when it is very fragile are dropped before scoring
+        // (over-budget ones are hidden too, unless nothing else is left)
+        const packageIndex = await this.getPackageIndex(products);
+        const needs = this.getPackageNeeds(memory);
+        const screening = this.screenPackages(products, packageIndex, needs, memory);
+        if (screening.shown.size === 0) {
+            return { reply: this.describeUnmetNeeds(needs, screening.checks!) };
         }
 
-        // NEW MATCHING LOGIC: Inclusive scoring only (no dimension filtering)
+        // NEW MATCHING LOGIC: Inclusive scoring of the packages that fit
         console.log("[handleDiscovery] ========== NEW MATCHING LOGIC (Inclusive Scoring) ==========");
         
         // Extract product information from memory
@@ -871,13 +2025,38 @@ export class PackagehaSession {
         console.log("[handleDiscovery] Product dimensions text:", productDimensionsText);
         console.log("[handleDiscovery] isAutoSearch:", isAutoSearch);
         console.log("[handleDiscovery] Total products available:", products.length);
+
+        // Searches embed the query and score the candidates with the LLM - the most expensive calls we make
+        const limit = await consumeRateLimit(this.env, this.rateLimitKey, "discovery");
+        if (!limit.allowed) {
+            const minutes = Math.max(1, Math.ceil(limit.retryAfterSeconds / 60));
+            return { reply: t(this.locale, "searchRateLimited", { minutes, plural: minutes === 1 ? "" : "s" }) };
+        }
+
+        // Only the screened packages most similar to the search go to the model
+        this.emit({ type: "status", message: t(this.locale, "statusFindingSimilar") });
+        const searchText = isAutoSearch && productDimensionsText ? productDescription : userMessage;
+        const retrieved = await this.retrieveCandidates(searchText, products, [...screening.shown]);
+        const candidates = [...retrieved.keys()].map(index => ({ product: products[index], index }));
         
-        // Prepare inventory context - include ALL products with full details
-        const inventoryList = products.map((p, index) => {
+        // Prepare inventory context - every candidate with its price, inner sizes, load, protection and fit
+        const inventoryList = candidates.map(({ product: p, index }) => {
             const cleanTitle = p.title.replace(/TEST\s?-\s?|rs-/gi, "").trim();
             const price = p.variants?.[0]?.price || 'N/A';
-            // Include more context: title, price, and any available description/metadata
-            return `ID ${index}: ${cleanTitle} (Price: ${price} SAR)`;
+            const sizes = [...new Set((packageIndex[p.id]?.variants || [])
+                .filter(v => v.dimensions)
+                .map(v => formatDimensions(v.dimensions!)))].slice(0, 3);
+            const check = screening.checks?.[index];
+            const unitCost = screening.prices[index].unitCost;
+            const details = [
+                `Price: ${price} SAR`,
+                unitCost !== null && unitCost !== parseFloat(price) ? `Unit cost: ${unitCost} SAR` : null, // Pack variants
+                sizes.length > 0 ? `Inner size: ${sizes.join(" / ")}` : null,
+                check?.status === "candidate" && check.marginCm !== null ? `Fits with ${check.marginCm} cm spare` : null,
+                check?.status === "candidate" && check.maxLoadGrams !== null ? `Max load: ${formatLoad(check.maxLoadGrams)}` : null,
+                check?.status === "candidate" && check.protectionLevel ? `Protection: ${check.protectionLevel}` : null,
+            ].filter(Boolean).join(", ");
+            return `ID ${index}: ${cleanTitle} (${details})`;
         }).join("\n");
         
         console.log("[handleDiscovery] Inventory list length:", inventoryList.length);
@@ -891,29 +2070,37 @@ CRITICAL: Return ONLY valid JSON. No explanations, no markdown, just JSON.
 
 RULES:
 1. BE INCLUSIVE: Include ALL packages. Only exclude if clearly wrong category (e.g., "food container" for "electronics").
-2. Score by: Fitness (70%) = keyword match between product description and package name, Price (30%) = lower is better.
+2. Score fitnessScore (0 to 1) = how well the package suits the product, by its name and type. Size, weight, protection and price are scored separately - do not score them.
 3. CRITICAL MATCHING RULE: Match based EXACTLY on the product description provided. 
    - If product is "soap", prioritize packages with "soap", "bath", "cosmetic", "personal care" keywords
    - If product is "perfume", prioritize packages with "perfume", "fragrance", "bottle", "cosmetic" keywords
    - DO NOT return perfume packages for soap products or vice versa
    - Look for semantic relationships: soap → bath products, cosmetics, personal care
    - Look for semantic relationships: perfume → fragrance, luxury, bottles, cosmetics
-4. Return ALL matches sorted by combinedScore (highest first). Do not limit the number of matches.
+4. Return ALL matches sorted by fitnessScore (highest first). Do not limit the number of matches.
 
 REQUIRED JSON FORMAT (return exactly this structure):
-{"type":"multiple","matches":[{"id":0,"name":"Package Name","reason":"Match explanation","fitnessScore":0.8,"priceScore":0.6,"combinedScore":0.74}]}
+{"type":"multiple","matches":[{"id":0,"name":"Package Name","reason":"Match explanation","fitnessScore":0.8}]}
+
+If inventory is empty, return: {"type":"none","reason":"No packages available"}
 
-If inventory is empty, return: {"type":"none","reason":"No packages available"}`;
+${languageRule(this.locale)}`;
 
-        let userPrompt = `Inventory (${products.length} total packages):\n${inventoryList}\n\n`;
+        let userPrompt = `Inventory (${candidates.length} total packages):\n${inventoryList}\n\n`;
+        if (screening.checks) {
+            userPrompt += `All listed packages were checked against the product's size, weight and protection needs - do not exclude any for them.\n`;
+        }
+        if (screening.budget) {
+            userPrompt += `Customer budget: ${formatUnitBudget(screening.budget)} (prices are scored against it separately - score fitness only).\n`;
+        }
         
         if (isAutoSearch && productDimensionsText) {
             userPrompt += `Product Description: "${productDescription}"\n`;
             userPrompt += `Product Dimensions: ${productDimensionsText}\n\n`;
-            userPrompt += `Task: Score ALL ${products.length} packages based on how well they match the product description "${productDescription}". Return ALL matches as JSON sorted by combinedScore (highest first).`;
+            userPrompt += `Task: Score ALL ${candidates.length} packages based on how well they match the product description "${productDescription}". Return ALL matches as JSON sorted by fitnessScore (highest first).`;
         } else {
             userPrompt += `Search Query: "${userMessage}"\n\n`;
-            userPrompt += `Task: Score ALL ${products.length} packages that match the search query "${userMessage}". Return ALL matches as JSON sorted by combinedScore (highest first).`;
+            userPrompt += `Task: Score ALL ${candidates.length} packages that match the search query "${userMessage}". Return ALL matches as JSON sorted by fitnessScore (highest first).`;
         }
         
         console.log("[handleDiscovery] Full user prompt (first 1000 chars):", userPrompt.substring(0, 1000));
@@ -922,7 +2109,15 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
         console.log("[handleDiscovery] User prompt length:", userPrompt.length);
         
         // Get AI decision
-        const decision = await this.getAIDecision(userPrompt, systemPrompt);
+        this.emit({ type: "status", message: t(this.locale, "statusScoring", { count: candidates.length }) });
+        // Streaming clients see each match as soon as the model has scored it, before the list is ranked
+        const onMatch = this.streaming ? (scored: StreamedMatch) => {
+            const match = retrieved.has(scored.id) ? this.buildModelMatch(scored, products, screening, searchText) : null;
+            if (match) {
+                this.emit({ type: "productMatches", matches: [match], partial: true, total: candidates.length });
+            }
+        } : undefined;
+        const decision = await this.getAIDecision(userPrompt, systemPrompt, onMatch);
         
         // Process decision
         console.log("[handleDiscovery] Decision received:", JSON.stringify(decision, null, 2));
@@ -931,14 +2126,14 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
             // If we got a chat response but have products, return them anyway as fallback
             console.log("[handleDiscovery] Got chat response, using keyword-based fallback matching");
             console.log("[handleDiscovery] Product description for fallback:", productDescription);
-            return this.createFallbackMatches(products, productDescription, memory);
+            return this.createFallbackMatches(products, searchText, memory, screening);
         }
 
         if (decision.type === "none") {
             // Even if LLM says none, return fallback matches
             console.log("[handleDiscovery] Got 'none' response, using keyword-based fallback matching");
             console.log("[handleDiscovery] Product description for fallback:", productDescription);
-            return this.createFallbackMatches(products, productDescription, memory);
+            return this.createFallbackMatches(products, searchText, memory, screening);
         }
 
         // Handle multiple matches
@@ -946,34 +2141,11 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
         
         if (decision.type === "multiple" && decision.matches && decision.matches.length > 0) {
             matches = decision.matches
-                .filter(m => m.id !== undefined && m.id >= 0 && m.id < products.length)
+                .filter(m => m.id !== undefined && retrieved.has(m.id))
                 // Return ALL matches, not just 10
-                .map(m => {
-                    const product = products[m.id!];
-                    if (!product) {
-                        console.warn(`[handleDiscovery] Product at index ${m.id} not found`);
-                        return null;
-                    }
-                    const imageUrl = product.images && product.images.length > 0 
-                        ? product.images[0].src 
-                        : null;
-                    const price = product.variants && product.variants.length > 0
-                        ? product.variants[0].price
-                        : null;
-                    
-                    return {
-                        id: m.id!,
-                        packageId: product.id,
-                        name: product.title,
-                        reason: m.reason || "Suitable for your product",
-                        imageUrl: imageUrl,
-                        price: price,
-                        fitnessScore: m.fitnessScore || 0.5,
-                        priceScore: m.priceScore || 0.5,
-                        combinedScore: m.combinedScore || 0.5
-                    };
-                })
-                .filter(m => m !== null);
+                .map(m => this.buildModelMatch(m, products, screening, searchText))
+                .filter(m => m !== null)
+                .sort((a, b) => b!.combinedScore - a!.combinedScore);
         }
         
         if (matches.length > 0) {
@@ -982,82 +2154,58 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
                 memory.step = "select_product";
             }
             memory.pendingMatches = matches;
+            this.emitMatches(matches);
 
             return {
-                reply: `I found ${matches.length} matching packages. They are sorted by relevance and price.`,
+                reply: this.withBudgetNote(t(this.locale, "matchesFound", { count: matches.length }), screening),
                 productMatches: matches
             };
         }
         
         // Final fallback - return all products
         console.log("[handleDiscovery] No matches from LLM, using final fallback");
-        return this.createFallbackMatches(products, productDescription, memory);
+        return this.createFallbackMatches(products, searchText, memory, screening);
     }
 
     /**
-     * Fallback: Return products with basic keyword matching when LLM fails
+     * One match the model scored, ranked with its relevance - null when the id is not in the catalog
      */
-    private createFallbackMatches(products: any[], productDescription: string, memory: Memory): { reply: string; productMatches: any[] } {
-        // Extract keywords from product description for basic matching
-        const description = (productDescription || '').toLowerCase().trim();
-        const keywords = description.split(/\s+/).filter(w => w.length > 2); // Filter out short words
-        
-        console.log("[createFallbackMatches] Product description:", description);
-        console.log("[createFallbackMatches] Extracted keywords:", keywords);
-        console.log("[createFallbackMatches] Total products to match:", products.length);
+    private buildModelMatch(scored: StreamedMatch, products: any[], screening: PackageScreening, searchText: string): any | null {
+        const product = products[scored.id];
+        if (!product) {
+            console.warn(`[handleDiscovery] Product at index ${scored.id} not found`);
+            return null;
+        }
+        const imageUrl = product.images && product.images.length > 0 
+            ? product.images[0].src 
+            : null;
+        const price = product.variants && product.variants.length > 0
+            ? product.variants[0].price
+            : null;
         
-        // Score products based on keyword matching
-        const scoredProducts = products.map((product, index) => {
-            const title = (product.title || '').toLowerCase();
-            const cleanTitle = title.replace(/TEST\s?-\s?|rs-/gi, "").trim();
-            
-            // Calculate fitness score based on keyword matches
-            let fitnessScore = 0.1; // Base score
-            let matchCount = 0;
-            
-            if (keywords.length > 0) {
-                for (const keyword of keywords) {
-                    if (cleanTitle.includes(keyword)) {
-                        matchCount++;
-                        fitnessScore += 0.3; // Increase score for each keyword match
-                    }
-                }
-                // Normalize fitness score (max 1.0)
-                fitnessScore = Math.min(1.0, fitnessScore);
-            } else {
-                // If no keywords, give all products equal low score
-                fitnessScore = 0.1;
-            }
-            
-            // Price score (lower price = higher score, normalized)
-            const price = parseFloat(product.variants?.[0]?.price || '999999');
-            const maxPrice = 2000; // Assume max reasonable price
-            const priceScore = Math.max(0.1, 1.0 - (price / maxPrice));
-            
-            // Combined score: 70% fitness, 30% price
-            const combinedScore = (fitnessScore * 0.7) + (priceScore * 0.3);
-            
-            return {
-                product,
-                index,
-                fitnessScore,
-                priceScore,
-                combinedScore,
-                matchCount
-            };
-        });
+        // The model only scores relevance - a match it left unscored is neutral on that signal
+        const relevance = typeof scored.fitnessScore === "number" ? Math.min(1, Math.max(0, scored.fitnessScore)) : NEUTRAL_SCORE;
+        return this.rankMatch({
+            id: scored.id,
+            packageId: product.id,
+            name: product.title,
+            reason: scored.reason || t(this.locale, "matchReasonDefault"),
+            imageUrl: imageUrl,
+            price: price
+        }, product, scored.id, screening, searchText, relevance);
+    }
+
+    /**
+     * Fallback: Return the screened packages, ranked without the model's relevance, when LLM fails
+     */
+    private createFallbackMatches(products: any[], query: string, memory: Memory, screening: PackageScreening): { reply: string; productMatches: any[] } {
+        const description = (query || '').toLowerCase().trim();
         
-        // Sort by combined score (highest first), then by match count
-        scoredProducts.sort((a, b) => {
-            if (b.combinedScore !== a.combinedScore) {
-                return b.combinedScore - a.combinedScore;
-            }
-            return b.matchCount - a.matchCount;
-        });
+        console.log("[createFallbackMatches] Search:", description);
+        console.log("[createFallbackMatches] Total products to match:", products.length);
         
-        // Return ALL matches (sorted by score)
-        const matches = scoredProducts.map((scored, idx) => {
-            const product = scored.product;
+        // Return ALL screened matches, ranked on the same signals as the model's matches (relevance left out)
+        const matches = products.map((product, index) => ({ product, index })).filter(({ index }) => screening.shown.has(index)).map(({ product, index }) => {
             const imageUrl = product.images && product.images.length > 0 
                 ? product.images[0].src 
                 : null;
@@ -1066,30 +2214,27 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
                 : null;
             
             // Generate reason based on match quality
-            let reason = "Available package option";
-            if (scored.matchCount > 0) {
-                reason = `Matches your product (${scored.matchCount} keyword${scored.matchCount > 1 ? 's' : ''} found)`;
-            }
+            const { matched } = matchingKeywords(query, packageKeywordText(product));
+            const reason = matched === 0 ? t(this.locale, "matchReasonAvailable")
+                : t(this.locale, matched === 1 ? "matchReasonKeyword" : "matchReasonKeywords", { count: matched });
             
-            return {
-                id: scored.index,
+            return this.rankMatch({
+                id: index,
                 packageId: product.id,
                 name: product.title,
                 reason: reason,
                 imageUrl: imageUrl,
-                price: price,
-                fitnessScore: Math.round(scored.fitnessScore * 100) / 100,
-                priceScore: Math.round(scored.priceScore * 100) / 100,
-                combinedScore: Math.round(scored.combinedScore * 100) / 100
-            };
-        });
+                price: price
+            }, product, index, screening, query, null);
+        }).sort((a, b) => b.combinedScore - a.combinedScore);
 
         if (memory.step !== "select_package_discovery" && memory.step !== "select_package") {
             memory.step = "select_product";
         }
         memory.pendingMatches = matches;
+        this.emitMatches(matches);
 
-        const matchNote = description ? ` based on "${description}"` : '';
+        const matchNote = description ? t(this.locale, "basedOn", { description }) : '';
         
         console.log("[createFallbackMatches] Top matches found:", matches.length);
         if (matches.length > 0) {
@@ -1097,7 +2242,7 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
         }
         
         return {
-            reply: `I found ${matches.length} available packages${matchNote}. They are sorted by relevance.`,
+            reply: this.withBudgetNote(t(this.locale, "fallbackMatchesFound", { count: matches.length, note: matchNote }), screening),
             productMatches: matches
         };
     }
@@ -1105,467 +2250,204 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
     private async handleVariantSelection(
         userMessage: string, 
         memory: Memory,
-        charter: any
-    ): Promise<{ reply: string; memoryReset?: boolean }> {
-        // Allow restarting search
-        if (this.shouldRestartSearch(userMessage)) {
-            await this.state.storage.delete("memory");
-            return { 
-                reply: "Okay, let's start over. What are you looking for?",
-                memoryReset: true 
-            };
-        }
-
-        if (!memory.variants || memory.variants.length === 0) {
-            return { 
-                reply: "I lost track of the product options. Type 'reset' to start over." 
-            };
-        }
-
-        // Build context
-        const optionsContext = memory.variants.map((v, i) => `ID ${i}: ${v.title}`).join("\n");
-
-        // Get AI decision
-        const systemPrompt = buildCharterPrompt("variant", charter);
-        const userPrompt = `Options:\n${optionsContext}\n\nUser: "${userMessage}"\n\nReturn JSON:\n- If match: { "match": true, "id": <index> }\n- If no match: { "match": false, "reply": "..." }`;
-
-        const decision = await this.getVariantDecision(userPrompt, systemPrompt);
-
-        if (decision.match && decision.id !== undefined && memory.variants[decision.id]) {
-            const selected = memory.variants[decision.id];
-            memory.selectedVariantId = selected.id;
-            memory.selectedVariantName = selected.title === "Default Title" ? "Default" : selected.title;
-            
-            // Move to package specs phase (preserving existing specs)
-            const result = this.transitionToPackageSpecs(memory);
-            return { 
-                reply: `Selected **${selected.title}**.\n\n${result.reply}` 
-            };
-        }
-
-        return { 
-            reply: decision.reply || "Please select one of the options listed above." 
-        };
-    }
-
-    /**
-     * Helper function to transition to package specs while preserving existing answers
-     */
-    private transitionToPackageSpecs(memory: Memory): { reply: string } {
-        memory.step = "select_package_specs";
-        
-        // Preserve existing package specs - don't reset questionIndex if specs already exist
-        const hasPackageSpecs = memory.clipboard && (
-            memory.clipboard['material'] || 
-            memory.clipboard['print'] || 
-            memory.clipboard['dimensions']
-        );
-        
-        if (hasPackageSpecs && SALES_CHARTER.packageSpecs) {
-            // We have existing specs - find the next unanswered question
-            const packageSpecsSteps = SALES_CHARTER.packageSpecs.steps;
-            let nextQuestionIndex = packageSpecsSteps.length; // Default to end (all answered)
-            
-            for (let i = 0; i < packageSpecsSteps.length; i++) {
-                const stepId = packageSpecsSteps[i].id;
-                if (!memory.clipboard[stepId]) {
-                    nextQuestionIndex = i;
-                    break;
-                }
-            }
-            
-            memory.questionIndex = nextQuestionIndex;
-            
-            // If all questions are answered, move to next step
-            if (nextQuestionIndex >= packageSpecsSteps.length) {
-                memory.step = "fulfillment_specs";
-                
-                // Check if fulfillment specs already exist - preserve progress
-                const hasFulfillmentSpecs = memory.clipboard && (
-                    memory.clipboard['quantity'] || 
-                    memory.clipboard['timeline'] || 
-                    memory.clipboard['shipping_address'] ||
-                    memory.clipboard['special_instructions']
-                );
-                
-                if (hasFulfillmentSpecs && SALES_CHARTER.fulfillmentSpecs) {
-                    // Find the next unanswered question in fulfillment specs
-                    const fulfillmentSteps = SALES_CHARTER.fulfillmentSpecs.steps;
-                    let nextFulfillmentIndex = fulfillmentSteps.length; // Default to end (all answered)
-                    
-                    for (let i = 0; i < fulfillmentSteps.length; i++) {
-                        const stepId = fulfillmentSteps[i].id;
-                        if (!memory.clipboard[stepId]) {
-                            nextFulfillmentIndex = i;
-                            break;
-                        }
-                    }
-                    
-                    memory.questionIndex = nextFulfillmentIndex;
-                    
-                    // If all fulfillment questions are answered, move to launch_kit
-                    if (nextFulfillmentIndex >= fulfillmentSteps.length) {
-                        memory.step = "launch_kit";
-                        memory.questionIndex = 0;
-                        if (!SALES_CHARTER.launchKit) {
-                            return { reply: "Error: Launch kit configuration missing." };
-                        }
-                        return { reply: SALES_CHARTER.launchKit.steps[0].question };
-                    } else {
-                        // Return the next unanswered fulfillment question
-                        return { reply: fulfillmentSteps[nextFulfillmentIndex].question };
-                    }
-                } else {
-                    // No existing fulfillment specs - start from the beginning
-                    memory.questionIndex = 0;
-                    if (!SALES_CHARTER.fulfillmentSpecs) {
-                        return { reply: "Error: Fulfillment specs configuration missing." };
-                    }
-                    return { reply: SALES_CHARTER.fulfillmentSpecs.steps[0].question };
-                }
-            } else {
-                // Return the next unanswered question
-                return { reply: packageSpecsSteps[nextQuestionIndex].question };
-            }
-        } else {
-            // No existing specs - start from the beginning
-            memory.questionIndex = 0;
-            if (!SALES_CHARTER.packageSpecs) {
-                return { reply: "Error: Package specs configuration missing." };
-            }
-            return { reply: SALES_CHARTER.packageSpecs.steps[0].question };
-        }
-    }
-
-    /**
-     * Generic consultation handler for any consultation phase
-     * @param nextStep - The step to move to after this consultation is complete
-     */
-    private async handleConsultationPhase(
-        userMessage: string, 
-        memory: Memory,
-        consultationPhase: { mission: string; steps: any[] },
-        nextStep: string
-    ): Promise<{ reply: string; memoryReset?: boolean; draftOrder?: any }> {
-        const steps = consultationPhase.steps;
-        const currentIndex = memory.questionIndex;
-
-        // Check if we're in edit mode
-        const editingQuestionId = memory.clipboard['_editing'];
-        const originalQuestionIndex = memory.clipboard['_originalQuestionIndex'] ? parseInt(memory.clipboard['_originalQuestionIndex']) : currentIndex;
-        const originalStep = memory.clipboard['_originalStep'] || memory.step;
-
-        // If userMessage is empty, return the current question (this happens on initial load or after step transition)
-        if (!userMessage || userMessage.trim() === "") {
-            if (currentIndex >= steps.length) {
-                // All questions answered - move to next step
-                memory.step = nextStep;
-                
-                // Check if next step already has answers - preserve progress
-                let nextStepQuestionIndex = 0;
-                if (nextStep === "fulfillment_specs" && SALES_CHARTER.fulfillmentSpecs) {
-                    const fulfillmentSteps = SALES_CHARTER.fulfillmentSpecs.steps;
-                    for (let i = 0; i < fulfillmentSteps.length; i++) {
-                        const stepId = fulfillmentSteps[i].id;
-                        if (!memory.clipboard[stepId]) {
-                            nextStepQuestionIndex = i;
-                            break;
-                        }
-                    }
-                    // If all answered, check launch_kit
-                    if (nextStepQuestionIndex >= fulfillmentSteps.length && SALES_CHARTER.launchKit) {
-                        memory.step = "launch_kit";
-                        const launchKitSteps = SALES_CHARTER.launchKit.steps;
-                        for (let i = 0; i < launchKitSteps.length; i++) {
-                            const stepId = launchKitSteps[i].id;
-                            if (!memory.clipboard[stepId]) {
-                                nextStepQuestionIndex = i;
-                                break;
-                            }
-                        }
-                        if (nextStepQuestionIndex >= launchKitSteps.length) {
-                            memory.step = "draft_order";
-                            return await this.createProjectQuote(memory);
-                        }
-                    }
-                } else if (nextStep === "launch_kit" && SALES_CHARTER.launchKit) {
-                    const launchKitSteps = SALES_CHARTER.launchKit.steps;
-                    for (let i = 0; i < launchKitSteps.length; i++) {
-                        const stepId = launchKitSteps[i].id;
-                        if (!memory.clipboard[stepId]) {
-                            nextStepQuestionIndex = i;
-                            break;
-                        }
-                    }
-                    if (nextStepQuestionIndex >= launchKitSteps.length) {
-                        memory.step = "draft_order";
-                        return await this.createProjectQuote(memory);
-                    }
-                }
-                
-                memory.questionIndex = nextStepQuestionIndex;
-                
-                if (nextStep === "draft_order" || memory.step === "draft_order") {
-                    return await this.createProjectQuote(memory);
-                }
-                return await this.getNextStepPrompt(memory.step, memory);
-            }
-            // Return current question - but first check if it's already answered
-            // If it is, skip to the next unanswered question
-            let questionToAsk = currentIndex;
-            
-            // Skip over already answered questions
-            while (questionToAsk < steps.length) {
-                const stepId = steps[questionToAsk].id;
-                if (!memory.clipboard[stepId]) {
-                    // Found an unanswered question
-                    break;
-                }
-                questionToAsk++;
-            }
-            
-            // Update questionIndex to the unanswered question
-            memory.questionIndex = questionToAsk;
-            
-            if (questionToAsk >= steps.length) {
-                // All questions answered - move to next step
-                memory.step = nextStep;
-                
-                // Check if next step already has answers - preserve progress
-                let nextStepQuestionIndex = 0;
-                if (nextStep === "fulfillment_specs" && SALES_CHARTER.fulfillmentSpecs) {
-                    const fulfillmentSteps = SALES_CHARTER.fulfillmentSpecs.steps;
-                    for (let i = 0; i < fulfillmentSteps.length; i++) {
-                        const stepId = fulfillmentSteps[i].id;
-                        if (!memory.clipboard[stepId]) {
-                            nextStepQuestionIndex = i;
-                            break;
-                        }
-                    }
-                    // If all answered, check launch_kit
-                    if (nextStepQuestionIndex >= fulfillmentSteps.length && SALES_CHARTER.launchKit) {
-                        memory.step = "launch_kit";
-                        const launchKitSteps = SALES_CHARTER.launchKit.steps;
-                        for (let i = 0; i < launchKitSteps.length; i++) {
-                            const stepId = launchKitSteps[i].id;
-                            if (!memory.clipboard[stepId]) {
-                                nextStepQuestionIndex = i;
-                                break;
-                            }
-                        }
-                        if (nextStepQuestionIndex >= launchKitSteps.length) {
-                            memory.step = "draft_order";
-                            return await this.createProjectQuote(memory);
-                        }
-                    }
-                } else if (nextStep === "launch_kit" && SALES_CHARTER.launchKit) {
-                    const launchKitSteps = SALES_CHARTER.launchKit.steps;
-                    for (let i = 0; i < launchKitSteps.length; i++) {
-                        const stepId = launchKitSteps[i].id;
-                        if (!memory.clipboard[stepId]) {
-                            nextStepQuestionIndex = i;
-                            break;
-                        }
-                    }
-                    if (nextStepQuestionIndex >= launchKitSteps.length) {
-                        memory.step = "draft_order";
-                        return await this.createProjectQuote(memory);
-                    }
-                }
-                
-                memory.questionIndex = nextStepQuestionIndex;
-                
-                if (nextStep === "draft_order" || memory.step === "draft_order") {
-                    return await this.createProjectQuote(memory);
-                }
-                return await this.getNextStepPrompt(memory.step, memory);
-            }
-            
-            const currentStep = steps[questionToAsk];
-            return { reply: currentStep.question };
+        charter: any
+    ): Promise<FlowResult> {
+        // Allow restarting search
+        if (this.shouldRestartSearch(userMessage)) {
+            await this.deleteMemory();
+            return { 
+                reply: t(this.locale, "startOver"),
+                memoryReset: true 
+            };
         }
 
-        // Handle edit mode: if we're editing a question, just update that answer and return to original state
-        if (editingQuestionId) {
-            // Find the question being edited
-            const editingStepIndex = steps.findIndex(s => s.id === editingQuestionId);
-            if (editingStepIndex >= 0) {
-                const editingStep = steps[editingStepIndex];
-                
-                // Validate answer if validator exists
-                if (editingStep.validation) {
-                    const validationResult = editingStep.validation(userMessage);
-                    if (validationResult !== true) {
-                        return { 
-                            reply: typeof validationResult === "string" 
-                                ? validationResult 
-                                : "Please provide a valid answer." 
-                        };
-                    }
-                }
-                
-                // Update the answer
-                memory.clipboard[editingQuestionId] = userMessage;
-                
-                // Restore original state
-                memory.questionIndex = originalQuestionIndex;
-                memory.step = originalStep;
-                
-                // Clear edit flags
-                delete memory.clipboard['_editing'];
-                delete memory.clipboard['_originalQuestionIndex'];
-                delete memory.clipboard['_originalStep'];
-                
-                await this.state.storage.put("memory", memory);
-                
-                // Return success message - frontend will handle showing the updated answer
-                return { 
-                    reply: `✓ Answer updated for "${editingStep.question}". You can continue or edit other questions.`
-                };
-            }
+        if (!memory.variants || memory.variants.length === 0) {
+            return { 
+                reply: t(this.locale, "variantsLost")
+            };
         }
 
-        if (currentIndex >= steps.length) {
-            // All questions answered - move to next step
-            // This shouldn't happen if we're handling questions properly, but handle gracefully
-            memory.step = nextStep;
-            
-            // Check if next step already has answers - preserve progress
-            let nextStepQuestionIndex = 0;
-            if (nextStep === "fulfillment_specs" && SALES_CHARTER.fulfillmentSpecs) {
-                const fulfillmentSteps = SALES_CHARTER.fulfillmentSpecs.steps;
-                for (let i = 0; i < fulfillmentSteps.length; i++) {
-                    const stepId = fulfillmentSteps[i].id;
-                    if (!memory.clipboard[stepId]) {
-                        nextStepQuestionIndex = i;
-                        break;
-                    }
-                }
-                // If all answered, check launch_kit
-                if (nextStepQuestionIndex >= fulfillmentSteps.length && SALES_CHARTER.launchKit) {
-                    memory.step = "launch_kit";
-                    const launchKitSteps = SALES_CHARTER.launchKit.steps;
-                    for (let i = 0; i < launchKitSteps.length; i++) {
-                        const stepId = launchKitSteps[i].id;
-                        if (!memory.clipboard[stepId]) {
-                            nextStepQuestionIndex = i;
-                            break;
-                        }
-                    }
-                    if (nextStepQuestionIndex >= launchKitSteps.length) {
-                        memory.step = "draft_order";
-                        return await this.createProjectQuote(memory);
-                    }
-                }
-            } else if (nextStep === "launch_kit" && SALES_CHARTER.launchKit) {
-                const launchKitSteps = SALES_CHARTER.launchKit.steps;
-                for (let i = 0; i < launchKitSteps.length; i++) {
-                    const stepId = launchKitSteps[i].id;
-                    if (!memory.clipboard[stepId]) {
-                        nextStepQuestionIndex = i;
-                        break;
-                    }
-                }
-                if (nextStepQuestionIndex >= launchKitSteps.length) {
-                    memory.step = "draft_order";
-                    return await this.createProjectQuote(memory);
-                }
-            }
-            
-            memory.questionIndex = nextStepQuestionIndex;
+        // Build context
+        const optionsContext = memory.variants.map((v, i) => `ID ${i}: ${v.title}${v.id === memory.fitVariantId ? " (recommended - the smallest size the product fits)" : ""}`).join("\n");
+
+        // Get AI decision
+        const systemPrompt = buildCharterPrompt("variant", charter, this.locale);
+        const userPrompt = `Options:\n${optionsContext}\n\nUser: "${userMessage}"\n\nReturn JSON:\n- If match: { "match": true, "id": <index> }\n- If no match: { "match": false, "reply": "..." }`;
+
+        const decision = await this.getVariantDecision(userPrompt, systemPrompt);
+
+        if (decision.match && decision.id !== undefined && memory.variants[decision.id]) {
+            const selected = memory.variants[decision.id];
+            memory.selectedVariantId = selected.id;
+            memory.selectedVariantName = selected.title === "Default Title" ? "Default" : selected.title;
             
-            if (nextStep === "draft_order" || memory.step === "draft_order") {
-                return await this.createProjectQuote(memory);
-            }
-            return await this.getNextStepPrompt(memory.step, memory);
+            // Move to package specs phase (answered specs are kept and skipped)
+            const result = await this.completePackageSelection(memory);
+            return { 
+                ...result,
+                reply: `${t(this.locale, "variantSelected", { name: selected.title })}\n\n${result.reply}` 
+            };
         }
 
-        const currentStep = steps[currentIndex];
+        return { 
+            reply: decision.reply || t(this.locale, "selectOption")
+        };
+    }
 
-        // Validate answer if validator exists
-        if (currentStep.validation) {
-            const validationResult = currentStep.validation(userMessage);
-            if (validationResult !== true) {
-                return { 
-                    reply: typeof validationResult === "string" 
-                        ? validationResult 
-                        : "Please provide a valid answer." 
-                };
+    /**
+     * Store a catalog package as the selection, then pick its only variant or ask which one
+     */
+    private async selectPackage(memory: Memory, packageProduct: any, charter: any): Promise<FlowResult> {
+        // Store package info (Packageha's package, not client's product)
+        memory.packageName = packageProduct.title;
+        memory.packageId = packageProduct.id;
+        const variants = await this.fitVariants(memory, packageProduct.id, packageProduct.variants.map((v: any) => ({
+            id: v.id,
+            title: v.title,
+            price: v.price,
+        })));
+        memory.variants = variants;
+        memory.pendingMatches = undefined; // Clear pending matches
+
+        // Auto-skip variant selection if only one variant (or only one the product fits)
+        if (variants.length === 1) {
+            const onlyVariant = packageProduct.variants.length === 1;
+            memory.selectedVariantId = variants[0].id;
+            // Use "Default" instead of the variant title when auto-selecting single variant
+            memory.selectedVariantName = onlyVariant ? "Default" : variants[0].title;
+            // Flows with package selection move on to their next stage instead of consultation
+            if (findStage(this.flows[memory.flow], "select_package")) {
+                const result = await this.completePackageSelection(memory);
+                const found = t(this.locale, "packageFound", { name: packageProduct.title });
+                const selected = onlyVariant ? "" : `\n\n${t(this.locale, "variantFits", { name: variants[0].title })}`;
+                return { ...result, reply: `${found}${selected}\n\n${result.reply}` };
+            } else {
+                // Legacy flow
+                memory.step = "consultation";
+                memory.questionIndex = 0;
+                return { reply: `${t(this.locale, "packageFound", { name: packageProduct.title })}\n\n${t(this.locale, "projectDetailsIntro")}\n\n${charter.consultation.steps[0].question}` };
             }
         }
 
-        // Store answer
-        memory.clipboard[currentStep.id] = userMessage;
-
-        // Check if there are more questions
-        if (currentIndex < steps.length - 1) {
-            memory.questionIndex = currentIndex + 1;
-            const nextStepQ = steps[memory.questionIndex];
-            return { reply: nextStepQ.question };
+        // Ask for variant selection
+        // Flows with package selection use select_package_variant instead of ask_variant
+        if (findStage(this.flows[memory.flow], "select_package_variant")) {
+            memory.step = "select_package_variant";
+        } else {
+            memory.step = "ask_variant";
         }
+        return { reply: this.askForVariant(memory) };
+    }
 
-        // Last question answered - move to next phase
-        memory.step = nextStep;
-        memory.questionIndex = 0;
-        if (nextStep === "draft_order") {
-            return await this.createProjectQuote(memory);
+    /**
+     * Ask which variant of the selected package the customer wants
+     */
+    private askForVariant(memory: Memory): string {
+        const options = (memory.variants || []).map(v => v.title).join(", ");
+        const reply = t(this.locale, "chooseVariant", { name: memory.packageName || "", options });
+        const fit = memory.variants?.find(v => v.id === memory.fitVariantId);
+        return fit ? `${reply}\n\n${t(this.locale, "variantFits", { name: fit.title })}` : reply;
+    }
+
+    /**
+     * The variants to offer: those the product isn't known not to fit (all of them when none do), with the smallest
+     * one that fits first - it is stored as the recommended choice
+     */
+    private async fitVariants(memory: Memory, packageId: number, variants: Variant[]): Promise<Variant[]> {
+        memory.fitVariantId = undefined;
+        const needs = this.getPackageNeeds(memory);
+        const entry = (await this.getPackageIndex(await this.getCachedProducts()))[packageId];
+        const failures = variantFailures(entry, needs);
+        const fitting = variants.filter(v => !failures.has(v.id));
+        if (fitting.length === 0) {
+            console.log("[fitVariants] No variant of package", packageId, "meets the product's needs - offering all");
+            return variants;
         }
-        return await this.getNextStepPrompt(nextStep, memory);
+        if (fitting.length < variants.length) {
+            console.log(`[fitVariants] ${variants.length - fitting.length} of ${variants.length} variants don't meet the product's needs`);
+        }
+
+        const check = checkPackage(entry, needs);
+        const fitVariantId = check.status === "candidate" && check.fit === "ok" ? check.variantId ?? undefined : undefined;
+        memory.fitVariantId = fitting.some(v => v.id === fitVariantId) ? fitVariantId : undefined;
+        return [
+            ...fitting.filter(v => v.id === memory.fitVariantId),
+            ...fitting.filter(v => v.id !== memory.fitVariantId),
+        ];
     }
 
     /**
-     * Helper to get the prompt for the next step after a consultation phase completes
+     * Custom package instead of a catalog one - continue with the next stage (package specs: material, print, etc.)
      */
-    private async getNextStepPrompt(nextStep: string, memory: Memory): Promise<{ reply: string; productMatches?: any[]; isAutoSearch?: boolean }> {
-        if (nextStep === "select_package") {
-            // Transition to package selection step immediately
-            memory.step = "select_package_discovery";
-            
-            // Build comprehensive search query from all product details
-            const productContext: string[] = [];
-            if (memory.clipboard) {
-                if (memory.clipboard.product_description) {
-                    productContext.push(memory.clipboard.product_description);
-                }
-                if (memory.clipboard.product_dimensions) {
-                    productContext.push(`dimensions: ${memory.clipboard.product_dimensions}`);
-                }
-                if (memory.clipboard.product_weight) {
-                    productContext.push(`weight: ${memory.clipboard.product_weight}`);
-                }
-                if (memory.clipboard.fragility) {
-                    productContext.push(`fragility: ${memory.clipboard.fragility}`);
-                }
-                if (memory.clipboard.budget) {
-                    productContext.push(`budget: ${memory.clipboard.budget}`);
-                }
-            }
-            const autoSearchQuery = productContext.length > 0 ? productContext.join(', ') : "packaging";
-            console.log("[getNextStepPrompt] Executing auto-search with query:", autoSearchQuery);
-            
-            // Execute the search immediately (frontend will show loading while waiting)
-            // Pass isAutoSearch=true to include product context
-            const result = await this.handleDiscovery(autoSearchQuery, memory, SALES_CHARTER, true);
-            console.log("[getNextStepPrompt] Auto-search completed:", result.productMatches?.length || 0, "matches");
-            
-            // Return results with isAutoSearch flag
-            return {
-                ...result,
-                isAutoSearch: true
-            };
-        } else if (nextStep === "fulfillment_specs") {
-            if (!SALES_CHARTER.fulfillmentSpecs) {
-                return { reply: "Error: Fulfillment specs configuration missing." };
+    private async selectCustomPackage(memory: Memory, dimensions?: string): Promise<FlowResult> {
+        if (dimensions) {
+            memory.clipboard['custom_package_dimensions'] = dimensions;
+            const parsed = parseAnswerAs("dimensions", dimensions);
+            if (parsed.ok) {
+                memory.answers = { ...memory.answers, custom_package_dimensions: parsed.answer };
             }
-            return { reply: SALES_CHARTER.fulfillmentSpecs.steps[0].question };
-        } else if (nextStep === "launch_kit") {
-            if (!SALES_CHARTER.launchKit) {
-                return { reply: "Error: Launch kit configuration missing." };
-            }
-            return { reply: SALES_CHARTER.launchKit.steps[0].question };
         }
+
+        memory.packageName = "Custom Package";
+        memory.selectedVariantName = "Custom";
+        memory.clipboard['custom_package'] = 'true';
+        const result = await this.completePackageSelection(memory);
+        return { ...result, reply: `${t(this.locale, "customPackageNoted")}\n\n${result.reply}` };
+    }
+
+    /**
+     * Forget the selected package (catalog or custom) - package specs answers are kept
+     */
+    private clearPackageSelection(memory: Memory): void {
+        memory.packageId = undefined;
+        memory.packageName = undefined;
+        memory.variants = undefined;
+        memory.fitVariantId = undefined;
+        memory.selectedVariantId = undefined;
+        memory.selectedVariantName = undefined;
+        memory.pendingMatches = undefined;
+        delete memory.clipboard['custom_package'];
+        delete memory.clipboard['custom_package_dimensions'];
+        if (memory.answers) {
+            delete memory.answers['custom_package_dimensions'];
+        }
+    }
+
+    /**
+     * Entering package selection: search with everything the product details phase collected
+     */
+    private async autoSearchPackages(memory: Memory): Promise<FlowResult> {
+        memory.step = "select_package_discovery";
+        const autoSearchQuery = this.buildAutoSearchQuery(memory);
+        console.log("[autoSearchPackages] Executing auto-search with query:", autoSearchQuery);
         
-        return { reply: "Moving to next step..." };
+        // Frontend shows loading while the search runs; isAutoSearch=true includes product context
+        const result = await this.handleDiscovery(autoSearchQuery, memory, this.charter, true);
+        console.log("[autoSearchPackages] Auto-search completed:", result.productMatches?.length || 0, "matches");
+        return {
+            ...result,
+            isAutoSearch: true
+        };
+    }
+
+    private buildAutoSearchQuery(memory: Memory): string {
+        const productContext: string[] = [];
+        if (memory.clipboard.product_description) {
+            productContext.push(memory.clipboard.product_description);
+        }
+        if (memory.clipboard.product_dimensions) {
+            productContext.push(`dimensions: ${memory.clipboard.product_dimensions}`);
+        }
+        if (memory.clipboard.product_weight) {
+            productContext.push(`weight: ${memory.clipboard.product_weight}`);
+        }
+        if (memory.clipboard.fragility) {
+            productContext.push(`fragility: ${memory.clipboard.fragility}`);
+        }
+        if (memory.clipboard.budget) {
+            productContext.push(`budget: ${memory.clipboard.budget}`);
+        }
+        return productContext.length > 0 ? productContext.join(', ') : "packaging";
     }
 
     /**
@@ -1574,28 +2456,17 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
     private async handlePackageSelection(
         userMessage: string,
         memory: Memory
-    ): Promise<{ reply: string; productMatches?: any[]; isAutoSearch?: boolean }> {
+    ): Promise<FlowResult> {
         // Check for custom package selection
         const lowerMessage = userMessage.toLowerCase().trim();
         if (lowerMessage.startsWith("custom package:") || lowerMessage.includes("custom") || 
             memory.clipboard['package_selection'] === 'custom') {
+            if (memory.flow === "sample_request") {
+                return { reply: t(this.locale, "sampleNoCustomPackage") };
+            }
             // Extract dimensions if provided
             const dimMatch = userMessage.match(/custom package:\s*(.+)/i);
-            if (dimMatch) {
-                memory.clipboard['custom_package_dimensions'] = dimMatch[1];
-            }
-            
-            // Handle custom package - continue with package specs (material, print, etc.)
-            memory.packageName = "Custom Package";
-            memory.selectedVariantName = "Custom";
-            memory.clipboard['custom_package'] = 'true';
-            // Go to package specs instead of skipping to fulfillment_specs
-            memory.step = "select_package_specs";
-            memory.questionIndex = 0;
-            if (!SALES_CHARTER.packageSpecs) {
-                return { reply: "Error: Package specs configuration missing." };
-            }
-            return { reply: `Great! I've noted your custom package dimensions. Now let's specify the package details.\n\n${SALES_CHARTER.packageSpecs.steps[0].question}` };
+            return await this.selectCustomPackage(memory, dimMatch?.[1]);
         }
         
         // Check if this is an edit request (user wants to change package)
@@ -1634,6 +2505,7 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
             memory.packageName = undefined;
             memory.selectedVariantName = undefined;
             memory.variants = undefined;
+            memory.fitVariantId = undefined;
             
             // Restore preserved package specs
             Object.assign(memory.clipboard, preservedPackageSpecs);
@@ -1656,28 +2528,11 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
                     console.log("[handlePackageSelection] Auto-search flag found, triggering search");
                     // Clear the flag
                     delete memory.clipboard['_autoSearch'];
-                    // Build comprehensive search query from all product details
-                    const productContext: string[] = [];
-                    if (memory.clipboard.product_description) {
-                        productContext.push(memory.clipboard.product_description);
-                    }
-                    if (memory.clipboard.product_dimensions) {
-                        productContext.push(`dimensions: ${memory.clipboard.product_dimensions}`);
-                    }
-                    if (memory.clipboard.product_weight) {
-                        productContext.push(`weight: ${memory.clipboard.product_weight}`);
-                    }
-                    if (memory.clipboard.fragility) {
-                        productContext.push(`fragility: ${memory.clipboard.fragility}`);
-                    }
-                    if (memory.clipboard.budget) {
-                        productContext.push(`budget: ${memory.clipboard.budget}`);
-                    }
-                    const autoSearchQuery = productContext.length > 0 ? productContext.join(', ') : "packaging";
+                    const autoSearchQuery = this.buildAutoSearchQuery(memory);
                     console.log("[handlePackageSelection] Auto-triggering search with query:", autoSearchQuery);
                     memory.clipboard['_autoSearch'] = 'true'; // Mark for response
                     // Pass isAutoSearch=true to include product context
-                    const result = await this.handleDiscovery(autoSearchQuery, memory, SALES_CHARTER, true);
+                    const result = await this.handleDiscovery(autoSearchQuery, memory, this.charter, true);
                     console.log("[handlePackageSelection] Auto-search result:", result.productMatches?.length || 0, "matches");
                     // Ensure isAutoSearch flag is included in the result
                     return {
@@ -1688,7 +2543,7 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
                     console.log("[handlePackageSelection] No auto-search flag, returning prompt");
                 }
                 memory.step = "select_package_discovery";
-                return { reply: "Great! Now let's find the perfect package for your product. What type of packaging are you looking for?" };
+                return { reply: t(this.locale, "findPackage") };
             }
             
             memory.step = "select_package_discovery";
@@ -1701,7 +2556,7 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
             }
             
             // Pass isAutoSearch flag to include/exclude product context
-            const result = await this.handleDiscovery(userMessage, memory, SALES_CHARTER, isAutoSearch);
+            const result = await this.handleDiscovery(userMessage, memory, this.charter, isAutoSearch);
             
             // If discovery returned productMatches (multiple matches), return them immediately
             if (result.productMatches && result.productMatches.length > 0) {
@@ -1717,13 +2572,11 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
                     // Auto-select single variant
                     memory.selectedVariantId = memory.variants[0].id;
                     memory.selectedVariantName = "Default";
-                    const result = this.transitionToPackageSpecs(memory);
-                    return result;
+                    return await this.completePackageSelection(memory);
                 } else {
                     // Ask for variant
                     memory.step = "select_package_variant";
-                    const options = memory.variants.map(v => v.title).join(", ");
-                    return { reply: `Found **${memory.packageName}**.\n\nWhich type are you interested in?\n\nOptions: ${options}` };
+                    return { reply: this.askForVariant(memory) };
                 }
             }
             
@@ -1731,51 +2584,139 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
         }
         
         // Package already selected - this shouldn't happen, but handle gracefully
-        return { reply: "Package already selected. Moving forward..." };
+        return { reply: t(this.locale, "packageAlreadySelected") };
     }
 
-    private async handleConsultation(
-        userMessage: string, 
-        memory: Memory,
-        charter: any
-    ): Promise<{ reply: string; memoryReset?: boolean; draftOrder?: any }> {
-        const steps = charter.consultation.steps;
-        const currentIndex = memory.questionIndex;
+    /**
+     * Services-only launch kit: pick catalog services, with quantities
+     * The picks are stored as the service_selection answer, so details, edits and pricing work as in direct sales
+     */
+    private async handleServiceSelection(userMessage: string, memory: Memory): Promise<FlowResult> {
+        if (!userMessage.trim()) {
+            return { reply: t(this.locale, "launchKitServices", { catalog: formatServiceCatalog(this.locale) }) };
+        }
 
-        if (currentIndex >= steps.length) {
-            return { reply: "I've collected all the information. Generating your quote..." };
+        const { picks, unknown } = parseServiceSelection(userMessage);
+        if (unknown.length > 0 || picks.length === 0) {
+            return { reply: t(this.locale, "launchKitUnknownServices", { picks: unknown.join(", ") || userMessage }) };
         }
 
-        const currentStep = steps[currentIndex];
+        const values = picks.map(pick => serviceOption(pick.service));
+        memory.clipboard['service_selection'] = values.join(", ");
+        memory.answers = { ...memory.answers, service_selection: { type: "enum", values, custom: [] } };
+        memory.serviceQuantities = Object.fromEntries(picks.map(pick => [pick.service.id, pick.quantity]));
 
-        // Validate answer if validator exists
-        if (currentStep.validation) {
-            const validationResult = currentStep.validation(userMessage);
-            if (validationResult !== true) {
-                return { 
-                    reply: typeof validationResult === "string" 
-                        ? validationResult 
-                        : "Please provide a valid answer." 
-                };
-            }
+        const selected = picks.map(pick => `${serviceName(pick.service, this.locale)} × ${pick.quantity}`).join(", ");
+        const result = await this.enterFlowStage(memory, "service_details");
+        return { ...result, reply: `${t(this.locale, "launchKitServicesSelected", { services: selected })}\n\n${result.reply}` };
+    }
+
+    /**
+     * Reorder: pick one of the customer's past draft orders and load its package and specs
+     */
+    private async handleReorderSelection(userMessage: string, memory: Memory): Promise<FlowResult> {
+        const orders = await this.listPastOrders();
+        if (orders.length === 0) {
+            return { reply: t(this.locale, "reorderNoOrders") };
         }
 
-        // Store answer
-        memory.clipboard[currentStep.id] = userMessage;
+        const choice = userMessage.trim() ? pickPastOrder(userMessage, orders) : undefined;
+        if (!choice) {
+            const key = userMessage.trim() ? "reorderUnknownOrder" : "reorderPickOrder";
+            return { reply: t(this.locale, key, { orders: formatPastOrders(orders, this.locale) }) };
+        }
 
-        // Check if there are more questions
-        if (currentIndex < steps.length - 1) {
-            memory.questionIndex = currentIndex + 1;
-            const nextStep = steps[memory.questionIndex];
-            return { reply: nextStep.question };
+        try {
+            this.emit({ type: "status", message: t(this.locale, "statusLoadingOrder") });
+            const order = await getDraftOrder(this.env.SHOP_URL, this.env.SHOPIFY_ACCESS_TOKEN, choice.draftOrderId);
+            if (!order) {
+                return { reply: t(this.locale, "reorderNotFound") };
+            }
+            // The snapshot stored with the order, else what the brief note and line items say
+            const snapshot = await getDraftOrderMetafield<DraftOrderSnapshot>(
+                this.env.SHOP_URL, this.env.SHOPIFY_ACCESS_TOKEN, order.id, SNAPSHOT_NAMESPACE, SNAPSHOT_KEY
+            ).catch(error => {
+                console.error("[handleReorderSelection] Error reading snapshot:", error);
+                return null;
+            }) || snapshotFromDraftOrder(order);
+            applySnapshot(memory, snapshot, order.id);
+        } catch (error: any) {
+            console.error("[handleReorderSelection] Error:", error);
+            return { reply: t(this.locale, "reorderLoadError") };
         }
 
-        // All questions answered - create draft order
-        return await this.createProjectQuote(memory);
+        const result = await this.enterFlowStage(memory, "fulfillment_specs");
+        const loaded = t(this.locale, "reorderLoaded", {
+            package: memory.selectedVariantName && memory.selectedVariantName !== "Default" ? `${memory.packageName} - ${memory.selectedVariantName}` : memory.packageName || choice.projectName,
+            order: choice.draftOrderId,
+        });
+        return { ...result, reply: `${loaded}\n\n${result.reply}` };
+    }
+
+    /**
+     * Draft orders of this session's completed projects, most recent first
+     */
+    private async listPastOrders(): Promise<PastOrder[]> {
+        const orders: PastOrder[] = [];
+        for (const project of await this.projects.list(true)) {
+            if (project.status !== "archived" || !project.draftOrderId || project.sampleRequest) continue;
+            const memory = await this.projects.loadMemory(project.id);
+            orders.push({
+                draftOrderId: project.draftOrderId,
+                projectName: project.name,
+                packageName: memory?.packageName,
+                orderedAt: project.archivedAt,
+            });
+        }
+        return orders;
     }
 
     // ==================== HELPER METHODS ====================
 
+    /**
+     * Validate, parse and store an answer to a consultation step
+     * Returns a reply instead when the answer is invalid or its parse needs confirming
+     */
+    private acceptAnswer(memory: Memory, step: CharterStep, userMessage: string): string | null {
+        const pending = memory.pendingAnswer;
+        delete memory.pendingAnswer;
+
+        // "yes" to "did I get that right?" stores what we showed; anything else is a fresh answer
+        if (pending && pending.stepId === step.id && isConfirmation(userMessage)) {
+            memory.clipboard[step.id] = pending.raw;
+            memory.answers = { ...memory.answers, [step.id]: pending.answer };
+            return null;
+        }
+
+        // On a reorder, "yes"/"same" keeps the answer from the original order
+        const previous = memory.previousAnswers?.[step.id];
+        if (previous && isKeepAnswer(userMessage)) {
+            userMessage = previous;
+        }
+
+        // Stored in canonical form whichever language the options were picked in
+        const answer = canonicalizeAnswer(step, userMessage);
+        if (step.validation) {
+            const validationResult = step.validation(answer);
+            if (validationResult !== true) {
+                return typeof validationResult === "string" ? validationResult : t(this.locale, "invalidAnswer");
+            }
+        }
+
+        const parsed = parseAnswer(step, answer, this.locale);
+        if (!parsed.ok) {
+            return parsed.message;
+        }
+        if (parsed.assumption) {
+            memory.pendingAnswer = { stepId: step.id, raw: answer, answer: parsed.answer };
+            return t(this.locale, "confirmAnswer", { assumption: parsed.assumption, answer: formatAnswer(parsed.answer, this.locale) });
+        }
+
+        memory.clipboard[step.id] = answer;
+        memory.answers = { ...memory.answers, [step.id]: parsed.answer };
+        return null;
+    }
+
     private async createProjectQuote(
         memory: Memory,
         resetMemory: boolean = true
@@ -1784,43 +2725,44 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
         // But typically we need at least package or services
         
         // Collect all answers from all consultation phases
+        // (answers to steps now hidden by showIf - e.g. cushioning after "Not fragile" - are left out)
         const allAnswers: string[] = [];
         
         // Product Details
-        if (SALES_CHARTER.productDetails) {
-            SALES_CHARTER.productDetails.steps.forEach(step => {
+        if (this.charter.productDetails) {
+            this.charter.productDetails.steps.forEach(step => {
                 const answer = memory.clipboard[step.id];
-                if (answer) {
+                if (answer && isStepVisible(step, memory.clipboard)) {
                     allAnswers.push(`- ${step.id.toUpperCase()}: ${answer}`);
                 }
             });
         }
         
         // Package Specs
-        if (SALES_CHARTER.packageSpecs) {
-            SALES_CHARTER.packageSpecs.steps.forEach(step => {
+        if (this.charter.packageSpecs) {
+            this.charter.packageSpecs.steps.forEach(step => {
                 const answer = memory.clipboard[step.id];
-                if (answer) {
+                if (answer && isStepVisible(step, memory.clipboard)) {
                     allAnswers.push(`- PACKAGE ${step.id.toUpperCase()}: ${answer}`);
                 }
             });
         }
         
         // Fulfillment Specs
-        if (SALES_CHARTER.fulfillmentSpecs) {
-            SALES_CHARTER.fulfillmentSpecs.steps.forEach(step => {
+        if (this.charter.fulfillmentSpecs) {
+            this.charter.fulfillmentSpecs.steps.forEach(step => {
                 const answer = memory.clipboard[step.id];
-                if (answer) {
+                if (answer && isStepVisible(step, memory.clipboard)) {
                     allAnswers.push(`- FULFILLMENT ${step.id.toUpperCase()}: ${answer}`);
                 }
             });
         }
         
         // Launch Kit
-        if (SALES_CHARTER.launchKit) {
-            SALES_CHARTER.launchKit.steps.forEach(step => {
+        if (this.charter.launchKit) {
+            this.charter.launchKit.steps.forEach(step => {
                 const answer = memory.clipboard[step.id];
-                if (answer) {
+                if (answer && isStepVisible(step, memory.clipboard)) {
                     allAnswers.push(`- LAUNCH KIT ${step.id.toUpperCase()}: ${answer}`);
                 }
             });
@@ -1829,58 +2771,19 @@ If inventory is empty, return: {"type":"none","reason":"No packages available"}`
         // Format project brief
         const briefNote = `--- PROJECT BRIEF ---
 Package: ${memory.selectedVariantName || memory.packageName || "Not selected"}
-${allAnswers.join("\n")}
+${memory.reorderOf ? `Reorder of: #${memory.reorderOf}\n` : ""}${allAnswers.join("\n")}
 ---------------------
-Generated by Studium AI Agent (${SALES_CHARTER.meta.name})
+Generated by Studium AI Agent (${this.charter.meta.name})
 Timestamp: ${new Date().toISOString()}
 `;
 
-        // Parse quantity safely
-        const qtyRaw = memory.clipboard['quantity'] || "1";
-        const qtyNum = parseInt(qtyRaw.replace(/\D/g, '')) || 1;
+        const qtyNum = getTypedAnswer(memory, 'quantity', 'quantity')?.value || 1;
 
         // Build custom line items for Launch Kit services
         const customLineItems: CustomLineItem[] = [];
-        const serviceSelection = memory.clipboard['service_selection'];
-        if (serviceSelection && serviceSelection !== "None - skip launch services") {
-            // Parse service selection (could be comma-separated or array-like)
-            const services = serviceSelection.split(',').map(s => s.trim()).filter(s => s && s !== "None - skip launch services");
-            
-            // Pricing for services (Saudi Arabia market prices in SAR)
-            // Prices are extracted from option text (format: "Service Name - X,XXX SAR")
-            services.forEach(service => {
-                // Extract price from service string if present (format: "Service Name - X,XXX SAR")
-                const priceMatch = service.match(/-\s*([\d,]+)\s*SAR/i);
-                let price = "500.00"; // Default fallback
-                
-                if (priceMatch) {
-                    // Remove commas and convert to decimal format
-                    price = priceMatch[1].replace(/,/g, '') + ".00";
-                } else {
-                    // Fallback pricing if format doesn't match
-            const servicePricing: Record<string, string> = {
-                        "Hero shot photography": "1200.00",
-                        "Stop-motion unboxing video": "1800.00",
-                        "E-commerce product photos": "900.00",
-                        "3D render with packaging for website": "1500.00",
-                        "Package design consultation": "600.00",
-                        "Brand styling consultation": "700.00"
-            };
-            
-                    // Try to match service name (without price)
-                    const serviceName = service.split(' - ')[0].trim();
-                    price = servicePricing[serviceName] || "500.00";
-                }
-                
-                // Extract service name (remove price part)
-                const serviceName = service.split(' - ')[0].trim();
-                
-                customLineItems.push({
-                    title: serviceName,
-                    price: price,
-                    quantity: 1
-                });
-            });
+        const services = getTypedAnswer(memory, 'service_selection', 'enum');
+        if (services) {
+            customLineItems.push(...serviceLineItems(services.values, memory.serviceQuantities));
         }
         
         // Handle Custom Package option
@@ -1891,15 +2794,13 @@ Timestamp: ${new Date().toISOString()}
             const customDimensions = memory.clipboard['custom_package_dimensions'] || 
                                    memory.clipboard['dimensions'] || 
                                    'Not specified';
+            const dims = getTypedAnswer(memory, 'custom_package_dimensions', 'dimensions') ||
+                         getTypedAnswer(memory, 'dimensions', 'dimensions');
             
-            // Extract dimensions and calculate price: L × W × H / 10
-            const dimMatch = customDimensions.match(/(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)/i);
+            // Calculate price from the dimensions in cm: L × W × H / 10
             let customPackagePrice = "0.00";
-            if (dimMatch) {
-                const length = parseFloat(dimMatch[1]);
-                const width = parseFloat(dimMatch[2]);
-                const height = parseFloat(dimMatch[3]);
-                customPackagePrice = ((length * width * height) / 10).toFixed(2);
+            if (dims) {
+                customPackagePrice = ((dims.cm.length * dims.cm.width * dims.cm.height) / 10).toFixed(2);
             } else if (memory.clipboard['custom_package_price']) {
                 customPackagePrice = memory.clipboard['custom_package_price'];
             }
@@ -1907,34 +2808,58 @@ Timestamp: ${new Date().toISOString()}
             customLineItems.push({
                 title: `Custom Package (${customDimensions})`,
                 price: customPackagePrice,
-                quantity: parseInt(memory.clipboard['quantity'] || "1")
+                quantity: qtyNum
             });
         }
 
         try {
-            const draftOrder = await createDraftOrder(
-                this.env.SHOP_URL,
-                this.env.SHOPIFY_ACCESS_TOKEN,
-                memory.selectedVariantId || null, // Allow null if no package selected
-                qtyNum,
-                briefNote,
-                customLineItems.length > 0 ? customLineItems : undefined
-            );
+            this.emit({ type: "status", message: t(this.locale, "statusCreatingDraftOrder") });
+            // Same project state (ignoring the brief's timestamp) => same draft order
+            const orderState = {
+                projectId: this.project.id,
+                variantId: memory.selectedVariantId || null,
+                packageName: memory.selectedVariantName || memory.packageName || null,
+                quantity: qtyNum,
+                answers: allAnswers,
+                customLineItems
+            };
+            const draftOrder = await this.createDraftOrderOnce("quote", this.idempotencyKey, orderState, async () => {
+                const created = await createDraftOrder(
+                    this.env.SHOP_URL,
+                    this.env.SHOPIFY_ACCESS_TOKEN,
+                    memory.selectedVariantId || null, // Allow null if no package selected
+                    qtyNum,
+                    briefNote,
+                    customLineItems.length > 0 ? customLineItems : undefined
+                );
+                // Snapshot for reorders - the brief note is the fallback, so a failure here doesn't fail the quote
+                try {
+                    await setDraftOrderMetafield(this.env.SHOP_URL, this.env.SHOPIFY_ACCESS_TOKEN, created.draftOrderId, SNAPSHOT_NAMESPACE, SNAPSHOT_KEY, buildSnapshot(memory));
+                } catch (error: any) {
+                    console.error("[createProjectQuote] Error storing snapshot:", error);
+                }
+                return created;
+            });
 
             // createDraftOrder throws on error, so if we reach here, draftOrder is valid
-            // Reset memory for new project only if resetMemory is true
+            // Archive the finished project (keeping its memory) only if resetMemory is true
+            // The next message starts a new project
+            memory.quotedDraftOrderId = draftOrder.draftOrderId;
+            delete memory.quoteOutdated;
             if (resetMemory) {
-            await this.state.storage.delete("memory");
+                memory.lastActivity = Date.now();
+                await this.saveMemory(memory);
+                await this.projects.archive(this.project.id, { draftOrderId: draftOrder.draftOrderId, archivedReason: "completed" });
             } else {
                 // Update last activity timestamp
                 memory.lastActivity = Date.now();
-                await this.state.storage.put("memory", memory);
+                await this.saveMemory(memory);
             }
             
             // Return structured response with draft order info
             const replyMessage = resetMemory 
-                ? `✅ **Project Brief Created!**\n\nI've attached all your specifications to the order. Please review and complete your purchase.\n\nType 'reset' to start a new project.`
-                : `✅ **Draft Order Regenerated!**\n\nI've updated the order with your latest specifications. Please review and complete your purchase.`;
+                ? t(this.locale, "quoteCreated")
+                : t(this.locale, "quoteRegenerated");
             
             return { 
                 reply: replyMessage,
@@ -1947,20 +2872,167 @@ Timestamp: ${new Date().toISOString()}
             };
         } catch (error: any) {
             console.error("[createProjectQuote] Error:", error);
+            if (error instanceof IdempotencyConflictError) {
+                return { 
+                    reply: t(this.locale, "quoteConflict")
+                };
+            }
             return { 
-                reply: `⚠️ I encountered an error while creating your quote. Please try again or contact support.` 
+                reply: t(this.locale, "quoteError")
+            };
+        }
+    }
+
+    /**
+     * Opening of the sample flow: the sample price and how many samples are left
+     */
+    private async startSampleRequest(memory: Memory): Promise<FlowResult> {
+        const config = getSampleConfig(this.env);
+        const remaining = config.limitPerSession - countSampleOrders(await this.projects.list(true));
+        if (remaining <= 0) {
+            return { reply: t(this.locale, "sampleLimitReached", { limit: config.limitPerSession }) };
+        }
+        return { reply: t(this.locale, "sampleIntro", { price: config.price, remaining }) };
+    }
+
+    /**
+     * Sample draft order: one unit of the selected package at the sample price, tagged as a sample
+     * The limit is checked again here, since the customer may have kept going after the intro said it was reached
+     */
+    private async createSampleOrder(memory: Memory): Promise<FlowResult> {
+        // regenerate_order can arrive at any step - only the draft_order stage has a package and an address
+        if (memory.step !== "draft_order" || !memory.packageId || !memory.clipboard["shipping_address"]) {
+            console.log("[createSampleOrder] Not ready - step:", memory.step, "package:", memory.packageId);
+            return { reply: t(this.locale, "sampleNotReady") };
+        }
+        const config = getSampleConfig(this.env);
+        if (countSampleOrders(await this.projects.list(true)) >= config.limitPerSession) {
+            return { reply: t(this.locale, "sampleLimitReached", { limit: config.limitPerSession }) };
+        }
+
+        const lineItem = sampleLineItem(memory, config);
+        const shippingAddress = memory.clipboard["shipping_address"];
+        const briefNote = `--- SAMPLE REQUEST ---
+Package: ${memory.selectedVariantName || memory.packageName || "Not selected"}
+${memory.selectedVariantId ? `Variant ID: ${memory.selectedVariantId}\n` : ""}- SHIPPING_ADDRESS: ${shippingAddress}
+---------------------
+Generated by Studium AI Agent (${this.charter.meta.name})
+Timestamp: ${new Date().toISOString()}
+`;
+
+        try {
+            this.emit({ type: "status", message: t(this.locale, "statusCreatingSample") });
+            const orderState = {
+                projectId: this.project.id,
+                variantId: memory.selectedVariantId || null,
+                lineItem,
+                shippingAddress
+            };
+            const draftOrder = await this.createDraftOrderOnce("sample", this.idempotencyKey, orderState, () => createDraftOrder(
+                this.env.SHOP_URL,
+                this.env.SHOPIFY_ACCESS_TOKEN,
+                null, // Priced as a custom line item, not at the package price
+                1,
+                briefNote,
+                [lineItem],
+                [SAMPLE_TAG]
+            ));
+
+            memory.lastActivity = Date.now();
+            await this.saveMemory(memory);
+            await this.projects.archive(this.project.id, { draftOrderId: draftOrder.draftOrderId, archivedReason: "completed", sampleRequest: true });
+
+            return {
+                reply: t(this.locale, "sampleCreated"),
+                memoryReset: true,
+                draftOrder: {
+                    id: draftOrder.draftOrderId,
+                    adminUrl: draftOrder.adminUrl,
+                    invoiceUrl: draftOrder.invoiceUrl
+                }
             };
+        } catch (error: any) {
+            console.error("[createSampleOrder] Error:", error);
+            if (error instanceof IdempotencyConflictError) {
+                return { reply: t(this.locale, "quoteConflict") };
+            }
+            return { reply: t(this.locale, "quoteError") };
+        }
+    }
+
+    // ==================== DRAFT ORDERS ====================
+
+    /**
+     * POST /api/create-draft-order - direct draft order from the storefront UI
+     * Serialized with chat turns and deduplicated like project quotes
+     */
+    private async handleDraftOrderRequest(request: Request): Promise<Response> {
+        const body = await this.parseJson<{ variantId: number; quantity: number; note: string }>(request);
+        if (!body.variantId || !body.quantity) {
+            return this.jsonResponse({ error: "variantId and quantity are required" }, 400);
+        }
+
+        const clientKey = request.headers.get(IDEMPOTENCY_HEADER_NAME) || undefined;
+        return this.enqueueTurn(async () => {
+            try {
+                const orderState = { variantId: body.variantId, quantity: body.quantity, note: body.note || "" };
+                const result = await this.createDraftOrderOnce("draft-order", clientKey, orderState, () => createDraftOrder(
+                    this.env.SHOP_URL,
+                    this.env.SHOPIFY_ACCESS_TOKEN,
+                    body.variantId,
+                    body.quantity,
+                    body.note || ""
+                ));
+
+                return this.jsonResponse({
+                    draftOrderId: result.draftOrderId,
+                    adminUrl: result.adminUrl,
+                    invoiceUrl: result.invoiceUrl
+                });
+            } catch (error: any) {
+                console.error("[handleDraftOrderRequest] Error:", error);
+                return this.jsonResponse({ error: error.message }, error instanceof IdempotencyConflictError ? 422 : 500);
+            }
+        });
+    }
+
+    /**
+     * Create a Shopify draft order at most once per idempotency key
+     * The key is the client's Idempotency-Key when sent, otherwise a hash of the order state
+     */
+    private async createDraftOrderOnce(
+        scope: string,
+        clientKey: string | undefined,
+        orderState: unknown,
+        create: () => Promise<DraftOrderResult>
+    ): Promise<DraftOrderResult> {
+        const fingerprint = await hashState(orderState);
+        const key = clientKey || fingerprint;
+
+        const cached = await this.idempotency.lookup(scope, key, fingerprint);
+        if (cached.status === "hit") {
+            console.log("[createDraftOrderOnce] Replaying draft order for key:", key, "->", cached.result.draftOrderId);
+            return cached.result;
         }
+        if (cached.status === "conflict") {
+            throw new IdempotencyConflictError(key);
+        }
+
+        const result = await create();
+        await this.idempotency.save(scope, key, fingerprint, result);
+        return result;
     }
 
-    private async getAIDecision(prompt: string, systemPrompt: string): Promise<AIDecision> {
+    private async getAIDecision(prompt: string, systemPrompt: string, onMatch?: (match: StreamedMatch) => void): Promise<AIDecision> {
         try {
             console.log("[getAIDecision] ========== CALLING AI ==========");
             console.log("[getAIDecision] System prompt length:", systemPrompt.length);
             console.log("[getAIDecision] User prompt length:", prompt.length);
             console.log("[getAIDecision] Total prompt length:", systemPrompt.length + prompt.length);
             
-            const response = await this.sovereignSwitch.callAI(prompt, systemPrompt);
+            const response = onMatch
+                ? await this.streamAIDecision(prompt, systemPrompt, onMatch)
+                : await this.sovereignSwitch.callAI(prompt, systemPrompt);
             
             console.log("[getAIDecision] Raw AI response length:", response.length);
             console.log("[getAIDecision] Raw AI response:", response);
@@ -1993,11 +3065,24 @@ Timestamp: ${new Date().toISOString()}
             
             return { 
                 type: "chat", 
-                reply: "I'm having trouble processing that. Could you rephrase your request?" 
+                reply: t(this.locale, "rephrase")
             };
         }
     }
 
+    /**
+     * Stream the model's reply, handing each match to onMatch as soon as its JSON object is complete
+     */
+    private async streamAIDecision(prompt: string, systemPrompt: string, onMatch: (match: StreamedMatch) => void): Promise<string> {
+        const parser = new MatchStreamParser();
+        let response = "";
+        for await (const chunk of this.sovereignSwitch.streamAI(prompt, systemPrompt)) {
+            response += chunk;
+            parser.push(chunk).forEach(onMatch);
+        }
+        return response;
+    }
+
     private async getVariantDecision(prompt: string, systemPrompt: string): Promise<VariantDecision> {
         try {
             const response = await this.sovereignSwitch.callAI(prompt, systemPrompt);
@@ -2006,7 +3091,7 @@ Timestamp: ${new Date().toISOString()}
             return decision;
         } catch (error: any) {
             console.error("[getVariantDecision] Error:", error);
-            return { match: false, reply: "I'm having trouble understanding. Please select an option from the list." };
+            return { match: false, reply: t(this.locale, "variantUnclear") };
         }
     }
 
@@ -2023,8 +3108,25 @@ Timestamp: ${new Date().toISOString()}
         return cleaned;
     }
 
+    /**
+     * Load the charter version the current project is pinned to (new projects get the current version),
+     * in the turn's reply language: the one requested for this turn (UI choice or detected), else the project's last one
+     */
+    private async useProjectCharter(requestedLocale?: Locale | null): Promise<void> {
+        const stored = await this.projects.loadMemory(this.project.id);
+        this.locale = requestedLocale || stored?.locale || DEFAULT_LOCALE;
+        this.charter = await loadCharter(this.env, stored?.charterVersion, this.locale);
+    }
+
+    /**
+     * Language asked for by a request: the UI's explicit choice, else the language the message is written in
+     */
+    private requestedLocale(body: RequestBody): Locale | null {
+        return isSupportedLocale(body.locale) ? body.locale : detectLocale(body.message || "");
+    }
+
     private async loadMemory(): Promise<Memory> {
-        const stored = await this.state.storage.get<Memory>("memory");
+        const stored = await this.projects.loadMemory(this.project.id);
         if (!stored) {
             // Create new memory with fresh timestamps and a fresh clipboard object
             // Important: Create a new clipboard object to avoid sharing references
@@ -2034,29 +3136,60 @@ Timestamp: ${new Date().toISOString()}
                 step: DEFAULT_MEMORY_TEMPLATE.step,
                 clipboard: {}, // Fresh object, not shared reference
                 questionIndex: DEFAULT_MEMORY_TEMPLATE.questionIndex,
+                charterVersion: this.charter.meta.version,
+                locale: this.locale,
                 createdAt: now,
                 lastActivity: now,
             };
         }
+        // Pin projects started before charter versioning to the version they are continuing on
+        if (!stored.charterVersion) {
+            stored.charterVersion = this.charter.meta.version;
+        }
+        stored.locale = this.locale;
         // Ensure flow exists for old memories
         if (!stored.flow) {
             stored.flow = "direct_sales";
         }
+        // Edits opened before edit state moved out of the clipboard
+        if (stored.clipboard['_editing']) {
+            stored.editing = {
+                questionId: stored.clipboard['_editing'],
+                returnStep: stored.clipboard['_originalStep'] || stored.step,
+                returnQuestionIndex: parseInt(stored.clipboard['_originalQuestionIndex'] || "") || stored.questionIndex,
+            };
+        }
+        delete stored.clipboard['_editing'];
+        delete stored.clipboard['_originalStep'];
+        delete stored.clipboard['_originalQuestionIndex'];
         return stored;
     }
 
-    private async handleReset(): Promise<Response> {
-        await this.state.storage.delete("memory");
-        return this.jsonResponse({ 
-            reply: "♻️ Memory reset. Starting fresh! What packaging solution are you looking for?" 
-        });
+    private async saveMemory(memory: Memory): Promise<void> {
+        await this.projects.saveMemory(this.project.id, memory);
+        await this.scheduleCleanup();
+    }
+
+    private async deleteMemory(): Promise<void> {
+        await this.projects.deleteMemory(this.project.id);
+    }
+
+    private async handleReset(): Promise<ChatTurnResult> {
+        await this.deleteMemory();
+        return {
+            payload: { reply: t(this.locale, "memoryReset") }
+        };
     }
 
     private async parseRequestBody(request: Request): Promise<RequestBody> {
+        return this.parseJson<RequestBody>(request);
+    }
+
+    private async parseJson<T>(request: Request): Promise<T> {
         try {
-            return await request.json() as RequestBody;
+            return await request.json() as T;
         } catch {
-            return {};
+            return {} as T;
         }
     }
 
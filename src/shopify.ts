@@ -6,6 +6,8 @@
 export interface ShopifyProduct {
     id: number;
     title: string;
+    product_type?: string;
+    tags?: string; // Comma-separated
     images?: Array<{
         id: number;
         src: string;
@@ -16,6 +18,9 @@ export interface ShopifyProduct {
         title: string;
         price: string;
         image_id?: number;
+        option1?: string | null;
+        option2?: string | null;
+        option3?: string | null;
     }>;
 }
 
@@ -33,7 +38,7 @@ export async function getActiveProducts(shopUrl: string, token: string): Promise
     try {
         do {
             // Build URL with pagination
-            let url = `https://${cleanShop}/admin/api/2024-01/products.json?status=active&limit=${limit}&fields=id,title,images,variants`;
+            let url = `https://${cleanShop}/admin/api/2024-01/products.json?status=active&limit=${limit}&fields=id,title,product_type,tags,images,variants`;
             if (pageInfo) {
                 url += `&page_info=${pageInfo}`;
             }
@@ -93,6 +98,96 @@ export async function getActiveProducts(shopUrl: string, token: string): Promise
     }
 }
 
+// Metafield values (by key) of each product and variant id (see getPackagingMetafields)
+export interface PackagingMetafields {
+    products: Record<number, Record<string, string>>;
+    variants: Record<number, Record<string, string>>;
+}
+
+// Requested cost of a page: 10 products x (5 metafields + 10 variants x 5 metafields) = 902 points,
+// under Shopify's 1000-point single query limit. Variants past the 10th of a product aren't read
+const METAFIELD_PAGE_SIZE = 10;
+const METAFIELD_VARIANTS_PER_PRODUCT = 10;
+const METAFIELDS_PER_OWNER = 5;
+const METAFIELD_MAX_PAGES = 250; // Same 2500 product ceiling as getActiveProducts
+const METAFIELD_THROTTLE_RETRIES = 3;
+
+/**
+ * Read the metafields in one namespace of every active product and its variants through the GraphQL Admin API
+ * (the REST product list doesn't include metafields). Slow for large catalogs - run it off the request path
+ */
+export async function getPackagingMetafields(shopUrl: string, token: string, namespace: string): Promise<PackagingMetafields> {
+    const result: PackagingMetafields = { products: {}, variants: {} };
+    const query = `query PackageMetafields($cursor: String, $namespace: String!) {
+        products(first: ${METAFIELD_PAGE_SIZE}, after: $cursor, query: "status:active") {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+                legacyResourceId
+                metafields(first: ${METAFIELDS_PER_OWNER}, namespace: $namespace) { nodes { key value } }
+                variants(first: ${METAFIELD_VARIANTS_PER_PRODUCT}) { nodes { legacyResourceId metafields(first: ${METAFIELDS_PER_OWNER}, namespace: $namespace) { nodes { key value } } } }
+            }
+        }
+    }`;
+    const byKey = (metafields: any): Record<string, string> => Object.fromEntries(
+        (metafields?.nodes || []).filter((m: any) => m.value).map((m: any) => [m.key, m.value])
+    );
+
+    let cursor: string | null = null;
+    for (let page = 0, retries = 0; page < METAFIELD_MAX_PAGES; page++) {
+        const response = await fetch(`${adminApiUrl(shopUrl)}/graphql.json`, {
+            method: "POST",
+            headers: {
+                "X-Shopify-Access-Token": token,
+                "Content-Type": "application/json"
+            },
+            body: JSON.stringify({ query, variables: { cursor, namespace } })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Shopify API Error ${response.status}: ${errorText}`);
+        }
+
+        const data = await response.json() as any;
+        if (data.errors) {
+            const cost = data.extensions?.cost;
+            const throttled = data.errors.some((error: any) => error.extensions?.code === "THROTTLED");
+            if (throttled && retries < METAFIELD_THROTTLE_RETRIES) {
+                // Wait for the bucket to refill enough for this page, then ask again
+                const needed = cost ? cost.requestedQueryCost - cost.throttleStatus.currentlyAvailable : 0;
+                const waitMs = cost ? Math.ceil(Math.max(needed, 0) / cost.throttleStatus.restoreRate) * 1000 : 2000;
+                console.log(`[getPackagingMetafields] Throttled on page ${page}, retrying in ${waitMs} ms`);
+                await new Promise(resolve => setTimeout(resolve, waitMs));
+                retries++;
+                page--;
+                continue;
+            }
+            console.error("[getPackagingMetafields] Query failed - requested cost:", cost?.requestedQueryCost, "errors:", JSON.stringify(data.errors));
+            throw new Error(`Shopify GraphQL Error: ${JSON.stringify(data.errors)}`);
+        }
+        retries = 0;
+        const products = data.data?.products;
+        for (const product of products?.nodes || []) {
+            const values = byKey(product.metafields);
+            if (Object.keys(values).length > 0) {
+                result.products[Number(product.legacyResourceId)] = values;
+            }
+            for (const variant of product.variants?.nodes || []) {
+                const variantValues = byKey(variant.metafields);
+                if (Object.keys(variantValues).length > 0) {
+                    result.variants[Number(variant.legacyResourceId)] = variantValues;
+                }
+            }
+        }
+
+        if (!products?.pageInfo?.hasNextPage) break;
+        cursor = products.pageInfo.endCursor;
+    }
+
+    console.log(`[getPackagingMetafields] ${namespace} metafields on ${Object.keys(result.products).length} products and ${Object.keys(result.variants).length} variants`);
+    return result;
+}
+
 export interface DraftOrderResponse {
     draft_order?: {
         id: number;
@@ -119,7 +214,8 @@ export async function createDraftOrder(
     variantId: number | null,
     qty: number,
     note: string = "",
-    customLineItems?: CustomLineItem[] // Optional custom line items for services
+    customLineItems?: CustomLineItem[], // Optional custom line items for services
+    tags: string[] = [] // Added to the default tag
 ): Promise<DraftOrderResult> {
     const cleanShop = shopUrl.replace(/(^\w+:|^)\/\//, '').replace(/\/$/, '');
     const url = `https://${cleanShop}/admin/api/2024-01/draft_orders.json`;
@@ -155,7 +251,7 @@ export async function createDraftOrder(
         draft_order: {
             line_items: lineItems,
             note: note.trim(),
-            tags: "studium-ai-generated"
+            tags: ["studium-ai-generated", ...tags].join(", ")
         }
     };
 
@@ -193,4 +289,109 @@ export async function createDraftOrder(
         console.error("[createDraftOrder] Error:", error);
         throw new Error(`Failed to create draft order: ${error.message}`);
     }
-}
\ No newline at end of file
+}
+
+export interface DraftOrderLineItem {
+    variantId: number | null; // null for custom line items
+    productId: number | null;
+    title: string;
+    variantTitle?: string;
+    quantity: number;
+    price: string;
+}
+
+export interface ShopifyDraftOrder {
+    id: number;
+    name: string; // e.g. "#D12"
+    note: string;
+    lineItems: DraftOrderLineItem[];
+}
+
+/**
+ * Fetch a draft order - null when it doesn't exist (e.g. deleted by staff)
+ */
+export async function getDraftOrder(shopUrl: string, token: string, draftOrderId: number): Promise<ShopifyDraftOrder | null> {
+    const response = await fetch(`${adminApiUrl(shopUrl)}/draft_orders/${draftOrderId}.json`, {
+        method: "GET",
+        headers: {
+            "X-Shopify-Access-Token": token,
+            "Content-Type": "application/json"
+        }
+    });
+
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Shopify API Error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json() as { draft_order?: any };
+    const order = data.draft_order;
+    if (!order) {
+        return null;
+    }
+    return {
+        id: order.id,
+        name: order.name,
+        note: order.note || "",
+        lineItems: (order.line_items || []).map((item: any) => ({
+            variantId: item.variant_id ?? null,
+            productId: item.product_id ?? null,
+            title: item.title,
+            variantTitle: item.variant_title || undefined,
+            quantity: item.quantity,
+            price: item.price,
+        })),
+    };
+}
+
+/**
+ * Read a JSON metafield of a draft order - null when it isn't set
+ */
+export async function getDraftOrderMetafield<T>(shopUrl: string, token: string, draftOrderId: number, namespace: string, key: string): Promise<T | null> {
+    const url = `${adminApiUrl(shopUrl)}/draft_orders/${draftOrderId}/metafields.json?namespace=${encodeURIComponent(namespace)}&key=${encodeURIComponent(key)}`;
+    const response = await fetch(url, {
+        method: "GET",
+        headers: {
+            "X-Shopify-Access-Token": token,
+            "Content-Type": "application/json"
+        }
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Shopify API Error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json() as { metafields?: Array<{ namespace: string; key: string; value: string }> };
+    const metafield = (data.metafields || []).find(m => m.namespace === namespace && m.key === key);
+    return metafield ? JSON.parse(metafield.value) as T : null;
+}
+
+/**
+ * Store a JSON metafield on a draft order
+ */
+export async function setDraftOrderMetafield(shopUrl: string, token: string, draftOrderId: number, namespace: string, key: string, value: unknown): Promise<void> {
+    const response = await fetch(`${adminApiUrl(shopUrl)}/draft_orders/${draftOrderId}/metafields.json`, {
+        method: "POST",
+        headers: {
+            "X-Shopify-Access-Token": token,
+            "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+            metafield: { namespace, key, type: "json", value: JSON.stringify(value) }
+        })
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Shopify API Error ${response.status}: ${errorText}`);
+    }
+}
+
+function adminApiUrl(shopUrl: string): string {
+    const cleanShop = shopUrl.replace(/(^\w+:|^)\/\//, '').replace(/\/$/, '');
+    return `https://${cleanShop}/admin/api/2024-01`;
+}
@@ -4,6 +4,9 @@
  */
 
 import { Env, SovereignMode } from "./types";
+import { readSSEData } from "./sse";
+
+const EMBED_BATCH_SIZE = 100; // Texts per embedding request (the most every provider accepts)
 
 export interface AIConfig {
   provider: "cloudflare" | "openai" | "gemini" | "vertex" | "local";
@@ -128,6 +131,194 @@ export class SovereignSwitch {
     }
   }
 
+  /**
+   * Whether this mode has embeddings: COMMERCIAL, OpenAI and Gemini embed with their own provider.
+   * SOVEREIGN and AIR_GAPPED have none - their text must stay with their provider, so callers skip semantic search
+   */
+  canEmbed(): boolean {
+    const provider = this.getAIConfig().provider;
+    return provider === "cloudflare" || provider === "openai" || provider === "gemini";
+  }
+
+  /**
+   * Embed texts for semantic search, in batches, with the mode's own provider (see canEmbed)
+   * The model is returned with the vectors - vectors from different models can't be compared
+   */
+  async embed(texts: string[]): Promise<{ model: string; vectors: number[][] }> {
+    const config = this.getAIConfig();
+    const vectors: number[][] = [];
+    let model = "";
+
+    try {
+      for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBED_BATCH_SIZE);
+        let result: { model: string; vectors: number[][] };
+        switch (config.provider) {
+          case "openai":
+            result = await this.embedOpenAI(batch, config.apiKey!);
+            break;
+          case "gemini":
+            result = await this.embedGemini(batch, config.apiKey!);
+            break;
+          case "cloudflare":
+            result = await this.embedCloudflareAI(batch);
+            break;
+          default:
+            throw new Error(`No embeddings in ${this.mode} mode`);
+        }
+        model = result.model;
+        vectors.push(...result.vectors);
+      }
+    } catch (error: any) {
+      console.error(`[SovereignSwitch] Embedding error in ${config.provider}:`, error);
+      throw new Error(`Embedding call failed: ${error.message}`);
+    }
+
+    if (vectors.length !== texts.length) {
+      throw new Error(`Embedding call failed: ${vectors.length} vectors for ${texts.length} texts`);
+    }
+    return { model, vectors };
+  }
+
+  /**
+   * Stream an AI reply as text chunks
+   * OpenAI, Gemini and the local (OpenAI-compatible) server stream natively;
+   * other providers yield the complete callAI() result as a single chunk
+   */
+  async *streamAI(prompt: string, systemPrompt?: string): AsyncGenerator<string> {
+    const config = this.getAIConfig();
+
+    try {
+      switch (config.provider) {
+        case "openai":
+          yield* this.streamOpenAICompatible(
+            "https://api.openai.com/v1/chat/completions",
+            prompt,
+            systemPrompt,
+            { ...config, model: config.model || "gpt-4o-mini" },
+            "OpenAI"
+          );
+          return;
+
+        case "local":
+          yield* this.streamOpenAICompatible(config.endpoint!, prompt, systemPrompt, config, "Local AI");
+          return;
+
+        case "gemini":
+          yield* this.streamGemini(prompt, systemPrompt, config);
+          return;
+
+        default:
+          yield await this.callAI(prompt, systemPrompt);
+          return;
+      }
+    } catch (error: any) {
+      console.error(`[SovereignSwitch] Streaming error in ${config.provider}:`, error);
+      throw new Error(`AI stream failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Stream from an OpenAI-compatible chat completions endpoint (stream: true)
+   */
+  private async *streamOpenAICompatible(
+    endpoint: string,
+    prompt: string,
+    systemPrompt: string | undefined,
+    config: AIConfig,
+    label: string
+  ): AsyncGenerator<string> {
+    const messages: Array<{ role: string; content: string }> = [];
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+    messages.push({ role: "user", content: prompt });
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (config.apiKey) {
+      headers["Authorization"] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages: messages,
+        temperature: 0.7,
+        max_tokens: 1024,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(`${label} error: ${response.status} - ${errorText}`);
+    }
+
+    for await (const data of readSSEData(response.body)) {
+      if (data === "[DONE]") return;
+      const chunk = JSON.parse(data);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  /**
+   * Stream from Gemini's streamGenerateContent endpoint (alt=sse)
+   */
+  private async *streamGemini(
+    prompt: string,
+    systemPrompt: string | undefined,
+    config: AIConfig
+  ): AsyncGenerator<string> {
+    if (!config.apiKey) {
+      throw new Error("Gemini API key is required");
+    }
+
+    const model = config.model || await this.getWorkingGeminiModel(config.apiKey);
+    console.log("[SovereignSwitch] Streaming Gemini with model:", model);
+    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${config.apiKey}`;
+
+    const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: fullPrompt
+          }]
+        }],
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: 1024,
+        }
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+    }
+
+    for await (const data of readSSEData(response.body)) {
+      const chunk = JSON.parse(data);
+      const parts: Array<{ text?: string }> = chunk.candidates?.[0]?.content?.parts || [];
+      const text = parts.map(part => part.text || "").join("");
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
   private async callCloudflareAI(
     prompt: string,
     systemPrompt: string | undefined,
@@ -147,6 +338,56 @@ export class SovereignSwitch {
     return response.response || "";
   }
 
+  private async embedCloudflareAI(texts: string[]): Promise<{ model: string; vectors: number[][] }> {
+    if (!this.env.AI) {
+      throw new Error("Cloudflare AI binding not available");
+    }
+    const model = "@cf/baai/bge-m3"; // Multilingual - Arabic queries match English titles
+    const response = await this.env.AI.run(model, { text: texts });
+    return { model, vectors: response.data || [] };
+  }
+
+  private async embedOpenAI(texts: string[], apiKey: string): Promise<{ model: string; vectors: number[][] }> {
+    const model = "text-embedding-3-small";
+    const response = await fetch("https://api.openai.com/v1/embeddings", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model, input: texts }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as any;
+    const items: Array<{ index: number; embedding: number[] }> = data.data || [];
+    return { model, vectors: items.sort((a, b) => a.index - b.index).map(item => item.embedding) };
+  }
+
+  private async embedGemini(texts: string[], apiKey: string): Promise<{ model: string; vectors: number[][] }> {
+    const model = "text-embedding-004";
+    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${apiKey}`;
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        requests: texts.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as any;
+    return { model, vectors: (data.embeddings || []).map((embedding: { values: number[] }) => embedding.values) };
+  }
+
   private async callOpenAI(
     prompt: string,
     systemPrompt: string | undefined,
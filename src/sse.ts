@@ -0,0 +1,66 @@
+/**
+ * Server-Sent Events
+ * Parses upstream provider streams and encodes our own chat events for the browser
+ */
+
+import { ChatStreamEvent } from "./types";
+
+export const SSE_HEADERS: Record<string, string> = {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+};
+
+/**
+ * Yield the `data:` payload of each event in an SSE stream
+ * Multi-line data fields are joined with "\n" as per the spec
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let dataLines: string[] = [];
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            let newline: number;
+            while ((newline = buffer.indexOf("\n")) !== -1) {
+                const line = buffer.slice(0, newline).replace(/\r$/, "");
+                buffer = buffer.slice(newline + 1);
+
+                if (line === "") {
+                    // Blank line terminates an event
+                    if (dataLines.length > 0) {
+                        yield dataLines.join("\n");
+                        dataLines = [];
+                    }
+                } else if (line.startsWith("data:")) {
+                    dataLines.push(line.slice(5).replace(/^ /, ""));
+                }
+                // Comments (":") and other fields (event:, id:, retry:) are ignored
+            }
+
+            if (done) break;
+        }
+
+        // Stream ended without a trailing blank line
+        if (buffer.startsWith("data:")) {
+            dataLines.push(buffer.slice(5).replace(/^ /, ""));
+        }
+        if (dataLines.length > 0) {
+            yield dataLines.join("\n");
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Encode a chat event as an SSE frame (event name = event type)
+ */
+export function encodeSSE(event: ChatStreamEvent): Uint8Array {
+    return new TextEncoder().encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
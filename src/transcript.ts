@@ -0,0 +1,90 @@
+/**
+ * Transcript Store
+ * Append-only conversation log per project, used to rehydrate the chat UI and for support review
+ */
+
+import { TranscriptEntry } from "./types";
+
+// Discovery can return the whole catalog - keep stored entries well under the storage value limit
+const MAX_STORED_MATCHES = 100;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface TranscriptPage {
+    entries: TranscriptEntry[];
+    // Pass as ?before= to fetch the previous (older) page; null when there is nothing older
+    nextBefore: number | null;
+}
+
+export class TranscriptStore {
+    private storage: DurableObjectStorage;
+
+    constructor(storage: DurableObjectStorage) {
+        this.storage = storage;
+    }
+
+    /**
+     * Append entries to a project's transcript, assigning sequence numbers in order
+     */
+    async append(projectId: string, entries: Array<Omit<TranscriptEntry, "seq">>): Promise<void> {
+        const seqKey = sequenceKey(projectId);
+        let seq = (await this.storage.get<number>(seqKey)) || 0;
+
+        const records: Record<string, TranscriptEntry | number> = {};
+        for (const entry of entries) {
+            seq++;
+            records[entryKey(projectId, seq)] = { ...trimEntry(entry), seq };
+        }
+        records[seqKey] = seq;
+
+        await this.storage.put(records);
+    }
+
+    /**
+     * Read a page of the transcript in chronological order
+     * Without `before`, returns the most recent page
+     */
+    async page(projectId: string, options: { before?: number; limit?: number } = {}): Promise<TranscriptPage> {
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+        const listed = await this.storage.list<TranscriptEntry>({
+            prefix: entryPrefix(projectId),
+            end: options.before ? entryKey(projectId, options.before) : undefined,
+            reverse: true,
+            limit: limit + 1, // One extra to know whether an older page exists
+        });
+
+        const newestFirst = Array.from(listed.values());
+        const hasMore = newestFirst.length > limit;
+        const entries = newestFirst.slice(0, limit).reverse();
+
+        return {
+            entries,
+            nextBefore: hasMore && entries.length > 0 ? entries[0].seq : null,
+        };
+    }
+}
+
+function trimEntry(entry: Omit<TranscriptEntry, "seq">): Omit<TranscriptEntry, "seq"> {
+    if (!entry.productMatches || entry.productMatches.length <= MAX_STORED_MATCHES) {
+        return entry;
+    }
+    return {
+        ...entry,
+        productMatches: entry.productMatches.slice(0, MAX_STORED_MATCHES),
+        productMatchesTotal: entry.productMatches.length,
+    };
+}
+
+function sequenceKey(projectId: string): string {
+    return `transcript_seq:${projectId}`;
+}
+
+function entryPrefix(projectId: string): string {
+    return `transcript:${projectId}:`;
+}
+
+function entryKey(projectId: string, seq: number): string {
+    // Zero-padded so lexicographic key order matches sequence order
+    return `${entryPrefix(projectId)}${seq.toString().padStart(10, "0")}`;
+}
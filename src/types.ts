@@ -2,10 +2,13 @@
  * Core Type Definitions for The Studium Platform
  */
 
+export type Locale = "en" | "ar";
+
 export type SovereignMode = "COMMERCIAL" | "COMMERCIAL_OPENAI" | "COMMERCIAL_GEMINI" | "SOVEREIGN" | "AIR_GAPPED";
 
 export interface Env {
   PackagehaSession: DurableObjectNamespace<PackagehaSession>;
+  RateLimiter: DurableObjectNamespace; // Token buckets per client (see rate-limiter.ts)
   SHOPIFY_ACCESS_TOKEN: string;
   SHOP_URL: string;
   AI: any; // Cloudflare AI binding
@@ -18,6 +21,30 @@ export interface Env {
   SALLA_CLIENT_ID?: string;
   SALLA_CLIENT_SECRET?: string;
   SALLA_REDIRECT_URI?: string;
+  // For session identity (see auth.ts)
+  SESSION_SECRET?: string; // HMAC secret for signing session tokens
+  SESSION_TOKEN_TTL_DAYS?: string; // Default: 30
+  ALLOW_ANONYMOUS_SESSIONS?: string; // "true" to fall back to IP-keyed sessions when no token is sent
+  // For session retention (see retention.ts)
+  SESSION_IDLE_MINUTES?: string; // Gap before offering "resume where you left off" (default: 60)
+  SESSION_RETENTION_DAYS?: string; // Inactivity before a project is archived by the cleanup alarm (default: 30)
+  // For rate limiting (see rate-limiter.ts) - "<capacity>:<refill per hour>"
+  RATE_LIMIT_CHAT?: string; // Chat turns (default: 30:300)
+  RATE_LIMIT_DISCOVERY?: string; // Package searches (default: 10:60)
+  RATE_LIMIT_IMAGE?: string; // Image generations (default: 5:20)
+  RATE_LIMIT_SESSION?: string; // New session tokens per IP (default: 10:30)
+  RATE_LIMIT_ALLOWLIST?: string; // Comma-separated session ids / IPs exempt from limits (internal testers)
+  // For runtime charters (see charter-store.ts)
+  CHARTERS?: KVNamespace; // Published charter versions (sales:current, sales:v:<version>)
+  CHARTER_VERSION?: string; // Pin new projects to this charter version (overrides sales:current)
+  // For sample requests (see samples.ts)
+  SAMPLE_PRICE?: string; // SAR per sample (default: 50, "0" for free samples)
+  SAMPLE_LIMIT_PER_SESSION?: string; // Samples one session can request (default: 3)
+  // For package search (see package-index.ts)
+  PACKAGE_FIT_PADDING_CM?: string; // Clearance a package needs around the product on each axis (default: 1)
+  PACKAGE_ENRICHMENT?: KVNamespace; // Enrichment table ("packages" key) - inner size, max load and protection by product id
+  PACKAGE_RETRIEVAL_TOP_K?: string; // Packages a search sends to the model, picked by embedding similarity (default: 40)
+  RANKING_WEIGHTS?: string; // "<signal>:<weight>,..." for relevance, keywords, fit, budget and price (see ranking.ts)
 }
 
 // Use global type for DurableObjectNamespace
@@ -47,14 +74,28 @@ export interface Memory {
   packageName?: string; // Renamed from productName - Packageha's package name (what we sell), NOT client's product
   packageId?: number; // Renamed from productId - Packageha's package ID (what we sell), NOT client's product
   variants?: Variant[];
+  fitVariantId?: number; // Smallest variant the product fits - offered first, as the recommended one
   selectedVariantId?: number;
   selectedVariantName?: string;
   clipboard: Record<string, string>;
   questionIndex: number;
   createdAt?: number;
   lastActivity?: number;
-  // For launch kit
-  selectedServices?: string[];
+  pendingResume?: boolean; // Waiting for the customer to choose resume vs. new project after a long gap
+  pendingFlowSwitch?: AgentFlow; // "switch to ..." waiting for the customer to confirm losing their answers
+  charterVersion?: string; // Charter version this project started on - kept for its whole consultation
+  answers?: Record<string, TypedAnswer>; // Parsed answers by step id (clipboard keeps the raw text)
+  pendingAnswer?: PendingAnswer; // Ambiguous parse waiting for the customer to confirm
+  locale?: Locale; // Language the customer is replying in (bot replies follow it)
+  reorderOf?: number; // Draft order this project repeats (reorder flow)
+  previousAnswers?: Record<string, string>; // Reorder: answers from the original order, offered again instead of reused
+  intent?: DetectedIntent; // What the first message asked for (see intent.ts)
+  editing?: EditState; // Set while an answer opened with "edit:questionId" is being changed
+  history?: NavigationEntry[]; // Back/undo stack, oldest first (see navigation.ts)
+  serviceQuantities?: Record<string, number>; // Launch kit service id -> quantity (services-only flow; 1 when absent)
+  pendingRediscovery?: boolean; // An edit invalidated the package - the next message may accept a new search (see dependencies.ts)
+  quotedDraftOrderId?: number; // Last draft order created for this project
+  quoteOutdated?: boolean; // An answer on the quote changed since it was created
   // Step tracking for new multi-step flow
   currentStep?: string; // product_details, select_package, fulfillment_specs, launch_kit
   packageSpecs?: {
@@ -72,6 +113,69 @@ export interface Memory {
   uploadedProductImageUrl?: string; // For uploaded images
 }
 
+// An answer being edited, and where the consultation continues once it is changed
+export interface EditState {
+  questionId: string;
+  returnStep: string;
+  returnQuestionIndex: number;
+}
+
+// Consultation state before a turn that changed it - restored by "back" and "undo"
+export interface NavigationEntry {
+  flow: AgentFlow;
+  step: string;
+  questionIndex: number;
+  clipboard: Record<string, string>;
+  answers?: Record<string, TypedAnswer>;
+  packageId?: number;
+  packageName?: string;
+  variants?: Variant[];
+  fitVariantId?: number;
+  selectedVariantId?: number;
+  selectedVariantName?: string;
+  pendingMatches?: Memory["pendingMatches"];
+  serviceQuantities?: Record<string, number>;
+  editing?: EditState;
+  pendingRediscovery?: boolean;
+  quoteOutdated?: boolean;
+}
+
+// Structured answer types a charter step can declare (see answers.ts)
+export type AnswerType = "text" | "quantity" | "dimensions" | "weight" | "money_range" | "enum" | "address";
+
+export type LengthUnit = "cm" | "mm" | "in";
+export type WeightUnit = "g" | "kg" | "oz" | "lb";
+
+export type TypedAnswer =
+  | { type: "text"; value: string }
+  | { type: "quantity"; value: number }
+  | { type: "dimensions"; length: number; width: number; height: number; unit: LengthUnit; cm: { length: number; width: number; height: number } } // cm is sorted largest first
+  | { type: "weight"; value: number; unit: WeightUnit; grams: number }
+  | { type: "money_range"; min?: number; max?: number; currency: "SAR" | "USD"; per?: "unit" | "total"; flexible?: boolean }
+  | { type: "enum"; values: string[]; custom: string[] } // custom: picks that aren't one of the step's options
+  | { type: "address"; lines: string[]; city?: string; country?: string };
+
+export interface PendingAnswer {
+  stepId: string;
+  raw: string;
+  answer: TypedAnswer;
+}
+
+// A customer project (e.g. "Soap line", "Perfume line") - each project has its own Memory
+export type ProjectStatus = "active" | "archived";
+
+export interface Project {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  createdAt: number;
+  updatedAt: number;
+  archivedAt?: number;
+  archivedReason?: "completed" | "manual" | "abandoned" | "expired";
+  draftOrderId?: number; // Set when the project's quote was created
+  sampleRequest?: boolean; // The draft order was a sample request
+}
+
 // Represents a Packageha package (what we sell) - NOT a client's product
 // Note: Shopify API uses "product" terminology, but these are actually packages
 export interface Product {
@@ -93,9 +197,7 @@ export interface AIDecision {
     id: number; 
     name: string; 
     reason: string;
-    fitnessScore?: number;
-    priceScore?: number;
-    combinedScore?: number;
+    fitnessScore?: number; // Relevance only - the rest of the score is ranked deterministically (see ranking.ts)
   }>;
   reason?: string;
   reply?: string;
@@ -113,14 +215,32 @@ export interface ConsultationAnswer {
   timestamp: number;
 }
 
-export type AgentFlow = "direct_sales" | "launch_kit";
+export type AgentFlow = "direct_sales" | "launch_kit" | "reorder" | "sample_request";
+
+// What a customer's opening message asks for: a flow, or a message that doesn't start one
+export type Intent = AgentFlow | "support" | "small_talk";
+
+export interface DetectedIntent {
+  intent: Intent;
+  confidence: number; // 0-1
+  source: "llm" | "keywords" | "user"; // "user" = the customer switched flows themselves
+}
 
 export interface RequestBody {
   message?: string;
   reset?: boolean;
-  flow?: AgentFlow; // Optional: explicit flow selection (for MVP)
+  flow?: AgentFlow; // Optional: explicit flow selection (otherwise detected from the first message)
   regenerateOrder?: boolean; // Optional: regenerate draft order without resetting memory
   edit?: string; // Optional: edit a specific question (format: "questionId")
+  projectId?: string; // Optional: which project to operate on (defaults to the active project)
+  resume?: boolean; // Optional: answer to the "resume where you left off" offer (false = start a new project)
+  locale?: Locale; // Optional: reply language chosen in the UI (otherwise detected from the message)
+  idempotencyKey?: string; // Optional: dedupes draft order creation on retry (the Idempotency-Key header takes precedence)
+  draftOrderId?: number; // Optional: previous draft order to repeat (flow "reorder")
+  back?: boolean; // Optional: return to the previous question (same as the message "back")
+  undo?: boolean; // Optional: revert the last change (same as the message "undo")
+  answer?: { stepId: string; value: string }; // Optional: answer a question, or change an earlier answer (PUT /api/project/answers/:stepId)
+  packageSelection?: PackageSelection; // Optional: pick or change the package (POST /api/project/package)
   // For Salla integration
   sallaAccessToken?: string;
   sallaProductId?: number;
@@ -128,11 +248,100 @@ export interface RequestBody {
   productImageBase64?: string; // Base64 encoded image data
 }
 
+// A package choice made through the project API - one of these is set
+export interface PackageSelection {
+  packageId?: number; // Catalog package (Shopify product id)
+  variantId?: number; // Variant of the selected package
+  custom?: boolean; // Custom package instead of a catalog one
+  customDimensions?: string; // Custom package size, e.g. "20x10x5 cm" (implies custom)
+  search?: string; // Drop the package and search the catalog again
+}
+
+// UI tracking state returned with every chat response
+export interface FlowState {
+  flow: AgentFlow;
+  step: string;
+  packageName?: string;
+  variantName?: string;
+  hasPackage: boolean;
+  hasVariant: boolean;
+  questionIndex: number;
+  projectId: string;
+  projectName: string;
+  locale: Locale;
+  quoteOutdated?: boolean; // The draft order needs regenerating after an edit
+}
+
+export interface CurrentQuestion {
+  id: string;
+  question: string;
+  options: string[] | string[][] | null;
+  multiple: boolean | "grouped";
+  defaultValue: string | null;
+}
+
+export interface DraftOrderInfo {
+  id: number;
+  adminUrl: string;
+  invoiceUrl?: string;
+}
+
+// Response body of POST /api/chat
+export interface ChatResponse {
+  reply: string;
+  flowState?: FlowState;
+  currentQuestion?: CurrentQuestion;
+  productMatches?: any[];
+  isAutoSearch?: boolean;
+  draftOrder?: DraftOrderInfo;
+  variants?: Array<{ id: number; title: string; price: string; recommended?: boolean }>;
+  intent?: DetectedIntent; // Set on the turn the flow was picked from the message
+}
+
+// Typed events sent over the streaming chat transports (WebSocket /api/chat/ws, SSE /api/chat/stream)
+export type ChatStreamEvent =
+  | { type: "status"; message: string }
+  | { type: "token"; text: string }
+  | { type: "productMatches"; matches: any[]; partial: boolean; total: number }
+  | { type: "currentQuestion"; currentQuestion: CurrentQuestion }
+  | { type: "draftOrder"; draftOrder: DraftOrderInfo }
+  | { type: "done"; status: number; response: ChatResponse }
+  | { type: "error"; error: string; retryAfter?: number }; // retryAfter (seconds) when rate limited
+
+// One entry of a project's append-only conversation transcript
+export interface TranscriptEntry {
+  seq: number;
+  role: "user" | "assistant";
+  timestamp: number;
+  // User turn
+  message?: string;
+  request?: Pick<RequestBody, "flow" | "reset" | "regenerateOrder" | "edit" | "sallaProductId" | "answer" | "packageSelection">;
+  // Assistant turn
+  status?: number;
+  reply?: string;
+  flowState?: FlowState;
+  currentQuestion?: CurrentQuestion;
+  productMatches?: any[];
+  productMatchesTotal?: number; // Set when productMatches was truncated for storage
+  draftOrder?: DraftOrderInfo;
+}
+
+// Project state stored on its draft order (metafield studium.project) so the order can be repeated
+export interface DraftOrderSnapshot {
+  packageId?: number;
+  packageName?: string;
+  variantId?: number;
+  variantName?: string;
+  answers: Record<string, string>; // Clipboard answers by step id
+}
+
+// Studio service in the launch kit catalog (see launch-kit.ts)
 export interface LaunchKitService {
   id: string;
   name: string;
   description: string;
-  price: number;
+  price: number; // SAR per unit
+  translations?: Partial<Record<Locale, { name: string; description: string }>>;
 }
 
 export interface CustomLineItem {